@@ -8,6 +8,29 @@ export class TursoDb implements ICredentialType {
 	displayName = 'Turso Database';
 	documentationUrl = 'https://docs.turso.tech/';
 	properties: INodeProperties[] = [
+		{
+			displayName: 'Connection Type',
+			name: 'connectionType',
+			type: 'options',
+			options: [
+				{
+					name: 'Remote',
+					value: 'remote',
+					description: 'Connect to a Turso or self-hosted sqld database over the network',
+				},
+				{
+					name: 'Local File',
+					value: 'localFile',
+					description: 'Open a local SQLite file, or a temporary in-memory database',
+				},
+				{
+					name: 'Embedded Replica',
+					value: 'embeddedReplica',
+					description: 'Keep a local copy of a remote database that is synced with the primary',
+				},
+			],
+			default: 'remote',
+		},
 		{
 			displayName: 'Database URL',
 			name: 'databaseUrl',
@@ -16,6 +39,51 @@ export class TursoDb implements ICredentialType {
 			placeholder: 'libsql://your-database.turso.io',
 			description: 'The URL of your Turso database. Get this by running: turso db show --url <database-name>',
 			required: true,
+			displayOptions: {
+				show: {
+					connectionType: ['remote'],
+				},
+			},
+		},
+		{
+			displayName: 'Database File',
+			name: 'filePath',
+			type: 'string',
+			default: '',
+			placeholder: '/data/local.db',
+			description: 'Path of the local database file. Use :memory: for a temporary in-memory database.',
+			required: true,
+			displayOptions: {
+				show: {
+					connectionType: ['localFile', 'embeddedReplica'],
+				},
+			},
+		},
+		{
+			displayName: 'Sync URL',
+			name: 'syncUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'libsql://your-database.turso.io',
+			description: 'The URL of the primary database the replica is synced with',
+			required: true,
+			displayOptions: {
+				show: {
+					connectionType: ['embeddedReplica'],
+				},
+			},
+		},
+		{
+			displayName: 'Sync Interval',
+			name: 'syncInterval',
+			type: 'number',
+			default: 0,
+			description: 'Seconds between automatic syncs with the primary. Use 0 to only sync on demand.',
+			displayOptions: {
+				show: {
+					connectionType: ['embeddedReplica'],
+				},
+			},
 		},
 		{
 			displayName: 'Auth Token',
@@ -25,8 +93,27 @@ export class TursoDb implements ICredentialType {
 			typeOptions: {
 				password: true,
 			},
-			description: 'The database authentication token. Get this by running: turso db tokens create <database-name>',
-			required: true,
+			description: 'The database authentication token. Get this by running: turso db tokens create <database-name>. Leave empty for servers without authentication.',
+			displayOptions: {
+				show: {
+					connectionType: ['remote', 'embeddedReplica'],
+				},
+			},
+		},
+		{
+			displayName: 'Encryption Key',
+			name: 'encryptionKey',
+			type: 'string',
+			default: '',
+			typeOptions: {
+				password: true,
+			},
+			description: 'Key to encrypt the local database file at rest. Leave empty for an unencrypted file.',
+			displayOptions: {
+				show: {
+					connectionType: ['localFile', 'embeddedReplica'],
+				},
+			},
 		},
 	];
 }
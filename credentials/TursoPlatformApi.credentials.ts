@@ -0,0 +1,57 @@
+import {
+	IAuthenticateGeneric,
+	ICredentialTestRequest,
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
+
+export class TursoPlatformApi implements ICredentialType {
+	name = 'tursoPlatformApi';
+	displayName = 'Turso Platform API';
+	documentationUrl = 'https://docs.turso.tech/api-reference/introduction';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'API Token',
+			name: 'apiToken',
+			type: 'string',
+			default: '',
+			typeOptions: {
+				password: true,
+			},
+			description: 'Platform API token. Get this by running: turso auth api-tokens mint <token-name>',
+			required: true,
+		},
+		{
+			displayName: 'Organization',
+			name: 'organization',
+			type: 'string',
+			default: '',
+			placeholder: 'my-org',
+			description: 'Slug of the organization to manage. List your organizations by running: turso org list',
+			required: true,
+		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: 'https://api.turso.tech',
+			description: 'URL of the Platform API. Change it to test against a mock server.',
+		},
+	];
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			headers: {
+				Authorization: '=Bearer {{$credentials.apiToken}}',
+			},
+		},
+	};
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: '={{$credentials.baseUrl}}',
+			url: '=/v1/organizations/{{encodeURIComponent($credentials.organization)}}',
+		},
+	};
+}
@@ -4,11 +4,27 @@ module.exports = {
       nodeClass: 'TursoDb',
       sourcePath: './dist/credentials/TursoDb.credentials.js',
     },
+    TursoPlatformApi: {
+      nodeClass: 'TursoPlatformApi',
+      sourcePath: './dist/credentials/TursoPlatformApi.credentials.js',
+    },
   },
   nodes: {
     Turso: {
       nodeClass: 'Turso',
       sourcePath: './dist/nodes/Turso/Turso.node.js',
     },
+    TursoTrigger: {
+      nodeClass: 'TursoTrigger',
+      sourcePath: './dist/nodes/Turso/TursoTrigger.node.js',
+    },
+    TursoAiTool: {
+      nodeClass: 'TursoAiTool',
+      sourcePath: './dist/nodes/TursoAiTool/TursoAiTool.node.js',
+    },
+    TursoPlatform: {
+      nodeClass: 'TursoPlatform',
+      sourcePath: './dist/nodes/TursoPlatform/TursoPlatform.node.js',
+    },
   },
 };
@@ -0,0 +1,787 @@
+import {
+	FieldType,
+	ICredentialDataDecryptedObject,
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IExecuteFunctions,
+	ILoadOptionsFunctions,
+	INodeCredentialTestResult,
+	INodeListSearchResult,
+	INodePropertyOptions,
+	IPollFunctions,
+	NodeOperationError,
+	ResourceMapperFields,
+} from 'n8n-workflow';
+
+import { Client, Config, createClient, LibsqlError } from '@libsql/client';
+
+/**
+ * Turn a local path into a file: URL, :memory: and URLs are kept as they are
+ */
+function toFileUrl(filePath: string): string {
+	if (filePath === ':memory:' || filePath.startsWith('file:')) {
+		return filePath;
+	}
+	return `file:${filePath}`;
+}
+
+/**
+ * Build the libSQL client configuration from the Turso credential.
+ * Credentials created before the connection type existed are remote connections.
+ */
+export function getConnectionConfig(credentials: ICredentialDataDecryptedObject): Config {
+	const connectionType = (credentials.connectionType as string) || 'remote';
+	const authToken = ((credentials.authToken as string) || '').trim() || undefined;
+	const encryptionKey = ((credentials.encryptionKey as string) || '').trim() || undefined;
+
+	if (connectionType === 'localFile' || connectionType === 'embeddedReplica') {
+		const filePath = ((credentials.filePath as string) || '').trim();
+
+		if (!filePath) {
+			throw new Error('Database file is required');
+		}
+
+		if (connectionType === 'localFile') {
+			return {
+				url: toFileUrl(filePath),
+				encryptionKey,
+			};
+		}
+
+		const syncUrl = ((credentials.syncUrl as string) || '').trim();
+
+		if (!syncUrl) {
+			throw new Error('Sync URL is required for an embedded replica');
+		}
+
+		if (filePath === ':memory:') {
+			throw new Error('An embedded replica needs a database file, it cannot be kept in memory');
+		}
+
+		const syncInterval = Number(credentials.syncInterval) || 0;
+
+		return {
+			url: toFileUrl(filePath),
+			syncUrl,
+			syncInterval: syncInterval > 0 ? syncInterval : undefined,
+			authToken,
+			encryptionKey,
+		};
+	}
+
+	const databaseUrl = ((credentials.databaseUrl as string) || '').trim();
+
+	if (!databaseUrl) {
+		throw new Error('Database URL is required');
+	}
+
+	return {
+		url: databaseUrl,
+		authToken,
+	};
+}
+
+export interface ReplicaSyncState {
+	lastSyncAt?: string;
+	lastFrameNo?: number;
+	// Frames the replica was behind the primary when it was last synced
+	lastFramesSynced?: number;
+}
+
+export interface ReplicaState {
+	// Read-your-writes setting of the execution that made it
+	readYourWrites?: { executionId: string; enabled: boolean };
+	syncs?: { [syncUrl: string]: ReplicaSyncState };
+}
+
+/**
+ * Embedded replica settings and sync history kept in the workflow's static data
+ */
+export function getReplicaState(
+	this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+): ReplicaState {
+	const staticData = this.getWorkflowStaticData('global');
+
+	if (!staticData.tursoReplica) {
+		staticData.tursoReplica = {};
+	}
+
+	return staticData.tursoReplica as ReplicaState;
+}
+
+/**
+ * Read-your-writes setting made earlier in the current execution, undefined when there is none
+ */
+export function getReadYourWrites(
+	this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+): boolean | undefined {
+	const replicaState = this.getWorkflowStaticData('global').tursoReplica as ReplicaState | undefined;
+	const setting = replicaState?.readYourWrites;
+
+	// Settings of other executions, and the plain values stored by older versions, are ignored
+	if (typeof setting !== 'object' || setting === null || setting.executionId !== this.getExecutionId()) {
+		return undefined;
+	}
+
+	return setting.enabled;
+}
+
+/**
+ * Open a libSQL client with the node's Turso credential
+ */
+export async function connectToDatabase(
+	this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+): Promise<Client> {
+	const credentials = await this.getCredentials('tursoDb');
+
+	try {
+		const config = getConnectionConfig(credentials);
+
+		// An execution can switch read-your-writes off for its embedded replica
+		if (config.syncUrl) {
+			const readYourWrites = getReadYourWrites.call(this);
+			if (readYourWrites !== undefined) {
+				config.readYourWrites = readYourWrites;
+			}
+		}
+
+		return createClient(config);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Error connecting to Turso database: ${error instanceof Error ? error.message : 'Unknown error'}`,
+		);
+	}
+}
+
+/**
+ * Remove the semicolons, comments and whitespace a statement ends in, so it can be
+ * wrapped in a subquery. Literals and quoted names are skipped whole.
+ */
+export function trimStatement(sql: string): string {
+	const pattern = /'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|[^'"`[\-/;\s]+|[\s\S]/g;
+	let end = 0;
+	let match;
+
+	while ((match = pattern.exec(sql)) !== null) {
+		if (!/^(--|\/\*|;|\s)/.test(match[0])) {
+			end = match.index + match[0].length;
+		}
+	}
+
+	return sql.slice(0, end);
+}
+
+/**
+ * Quote a table or column name so it can be used in SQL whatever characters it contains
+ */
+export function quoteIdentifier(name: string): string {
+	return `"${name.replace(/"/g, '""')}"`;
+}
+
+export interface TableSchema {
+	name: string;
+	type: string;
+	columns: string[];
+	// Declared type of each column, by column name
+	columnTypes: { [column: string]: string };
+}
+
+/**
+ * Look up a table or view and its columns in the live schema, failing with a clear
+ * error when it or one of the given columns does not exist
+ */
+export async function getTableSchema(
+	this: IExecuteFunctions | IPollFunctions,
+	client: Client,
+	table: string,
+	columns: string[] = [],
+	itemIndex?: number,
+): Promise<TableSchema> {
+	const tableResult = await client.execute({
+		sql: "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name = ? COLLATE NOCASE",
+		args: [table],
+	});
+
+	if (tableResult.rows.length === 0) {
+		throw new NodeOperationError(this.getNode(), `Table "${table}" does not exist in the database`, { itemIndex });
+	}
+
+	const name = tableResult.rows[0].name as string;
+	const columnResult = await client.execute({
+		sql: 'SELECT name, type FROM pragma_table_info(?)',
+		args: [name],
+	});
+	const tableColumns = columnResult.rows.map(row => row.name as string);
+	const columnTypes: { [column: string]: string } = {};
+	for (const row of columnResult.rows) {
+		columnTypes[row.name as string] = (row.type as string) || '';
+	}
+
+	// SQLite compares identifiers without regard to case
+	const known = tableColumns.map(column => column.toLowerCase());
+	const unknownColumns = columns.filter(column => !known.includes(column.toLowerCase()));
+
+	if (unknownColumns.length > 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Column(s) ${unknownColumns.map(column => `"${column}"`).join(', ')} do not exist in table "${name}"`,
+			{
+				itemIndex,
+				description: `Available columns: ${tableColumns.join(', ')}`,
+			},
+		);
+	}
+
+	return {
+		name,
+		type: tableResult.rows[0].type as string,
+		columns: tableColumns,
+		columnTypes,
+	};
+}
+
+/**
+ * Affinity SQLite gives a column of the declared type, with ANY and untyped columns keeping values as they are
+ */
+export function getColumnAffinity(type: string): string {
+	const declared = (type || '').toUpperCase();
+
+	if (declared.includes('INT')) {
+		return 'INTEGER';
+	}
+	if (/CHAR|CLOB|TEXT/.test(declared)) {
+		return 'TEXT';
+	}
+	if (declared === '' || declared === 'ANY' || declared.includes('BLOB')) {
+		return 'BLOB';
+	}
+	if (/REAL|FLOA|DOUB/.test(declared)) {
+		return 'REAL';
+	}
+	return 'NUMERIC';
+}
+
+/**
+ * Type of the resource mapper field of a column of the declared type
+ */
+function toFieldType(type: string): FieldType | undefined {
+	const declared = (type || '').toUpperCase();
+
+	if (declared.includes('BOOL')) {
+		return 'boolean';
+	}
+	if (/DATE|TIME/.test(declared)) {
+		return 'dateTime';
+	}
+
+	const affinity = getColumnAffinity(type);
+	if (affinity === 'TEXT') {
+		return 'string';
+	}
+	return affinity === 'BLOB' ? undefined : 'number';
+}
+
+/**
+ * Read the expiry date of a JWT auth token, if the token can be decoded
+ */
+function getTokenExpiry(token: string): Date | undefined {
+	const payload = token.split('.')[1];
+
+	if (!payload) {
+		return undefined;
+	}
+
+	try {
+		const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+		return typeof decoded.exp === 'number' ? new Date(decoded.exp * 1000) : undefined;
+	} catch (error) {
+		return undefined;
+	}
+}
+
+/**
+ * Test the Turso credential by running a trivial query
+ */
+export async function tursoDbConnectionTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = credential.data as ICredentialDataDecryptedObject;
+
+	let config: Config;
+	try {
+		config = getConnectionConfig(credentials);
+	} catch (error) {
+		return { status: 'Error', message: error.message };
+	}
+
+	// The host that is reached over the network, if any
+	const remoteUrl = config.syncUrl ?? (config.url.startsWith('file:') || config.url === ':memory:' ? undefined : config.url);
+	const authToken = config.authToken ?? '';
+
+	let host = remoteUrl ?? config.url;
+	if (remoteUrl) {
+		try {
+			host = new URL(remoteUrl).host || remoteUrl;
+		} catch (error) {
+			return {
+				status: 'Error',
+				message: `Malformed database URL "${remoteUrl}". It should look like libsql://your-database.turso.io`,
+			};
+		}
+	}
+
+	const expiry = authToken ? getTokenExpiry(authToken) : undefined;
+
+	if (expiry && expiry.getTime() <= Date.now()) {
+		return {
+			status: 'Error',
+			message: `The auth token expired on ${expiry.toISOString()}. Create a new one with: turso db tokens create <database-name>`,
+		};
+	}
+
+	try {
+		const client = createClient(config);
+
+		try {
+			await client.execute('SELECT 1');
+		} finally {
+			client.close();
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Unknown error';
+		const cause = error instanceof Error ? (error.cause as { code?: string } | undefined) : undefined;
+
+		if (error instanceof LibsqlError && ['URL_INVALID', 'URL_SCHEME_NOT_SUPPORTED'].includes(error.code)) {
+			return {
+				status: 'Error',
+				message: `Malformed database URL: ${message}`,
+			};
+		}
+
+		if (/\b401\b|\b403\b|unauthori[sz]ed|forbidden|auth/i.test(message)) {
+			const expiryNote = expiry ? ` The token is valid until ${expiry.toISOString()}.` : '';
+			return {
+				status: 'Error',
+				message: `Authentication failed, check the auth token for this database.${expiryNote}`,
+			};
+		}
+
+		if (
+			['ENOTFOUND', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNRESET'].includes(cause?.code ?? '') ||
+			/fetch failed|ENOTFOUND|ECONNREFUSED|ETIMEDOUT/i.test(message)
+		) {
+			return {
+				status: 'Error',
+				message: `Could not reach the database host "${host}": ${cause?.code ?? message}`,
+			};
+		}
+
+		return {
+			status: 'Error',
+			message: `Connection failed: ${message}`,
+		};
+	}
+
+	return {
+		status: 'OK',
+		message: 'Connection successful',
+	};
+}
+
+/**
+ * Name of the selected table, whether it is picked from a list, entered or set by expression
+ */
+function getCurrentTable(this: ILoadOptionsFunctions): string {
+	return (this.getCurrentNodeParameter('table', { extractValue: true }) as string) || '';
+}
+
+/**
+ * Load the tables of the database for the table dropdowns
+ */
+export async function getTables(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const returnData: INodePropertyOptions[] = [];
+
+	try {
+		// Connect to database
+		const client = await connectToDatabase.call(this);
+
+		try {
+			// Fetch tables
+			const result = await client.execute({
+				sql: "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'",
+				args: [],
+			});
+
+			// Add tables to options
+			for (const row of result.rows || []) {
+				const tableName = (row as any).name;
+				returnData.push({
+					name: tableName,
+					value: tableName,
+				});
+			}
+		} finally {
+			client.close();
+		}
+	} catch (error) {
+		// We can't use NodeOperationError in load options methods
+		console.error('Error loading tables:', error);
+		returnData.push({
+			name: 'Error loading tables',
+			value: '',
+			description: error instanceof Error ? error.message : 'Unknown error',
+		});
+	}
+
+	return returnData;
+}
+
+/**
+ * Search the tables and views of the database for the table resource locator
+ */
+export async function searchTables(this: ILoadOptionsFunctions, filter?: string): Promise<INodeListSearchResult> {
+	// Errors are shown by the resource locator itself
+	const client = await connectToDatabase.call(this);
+
+	try {
+		const result = await client.execute({
+			sql: "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' AND instr(lower(name), lower(?)) > 0 ORDER BY name",
+			args: [filter || ''],
+		});
+
+		return {
+			results: result.rows.map(row => ({
+				name: row.name as string,
+				value: row.name as string,
+				description: row.type === 'view' ? 'View' : undefined,
+			})),
+		};
+	} finally {
+		client.close();
+	}
+}
+
+/**
+ * Load the columns of the selected table for the column mapping, with their type, NOT NULL and default
+ */
+export async function getMappingColumns(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+	const currentTable = getCurrentTable.call(this);
+
+	if (!currentTable) {
+		return { fields: [] };
+	}
+
+	const operation = this.getCurrentNodeParameter('operation') as string;
+
+	// Errors are shown by the resource mapper itself
+	const client = await connectToDatabase.call(this);
+
+	try {
+		const result = await client.execute({
+			sql: 'SELECT name, type, "notnull", dflt_value, pk FROM pragma_table_info(?) ORDER BY cid',
+			args: [currentTable],
+		});
+
+		return {
+			fields: result.rows.map(row => {
+				const name = row.name as string;
+				const type = (row.type as string) || '';
+				const notNull = Number(row.notnull) === 1;
+				const defaultValue = row.dflt_value as string | null;
+				// An INTEGER PRIMARY KEY is the rowid and gets a value when none is given
+				const rowidKey = Number(row.pk) === 1 && type.toUpperCase() === 'INTEGER';
+				const details = [type || 'ANY', notNull ? 'NOT NULL' : '', defaultValue !== null ? `DEFAULT ${defaultValue}` : '']
+					.filter(Boolean)
+					.join(', ');
+
+				return {
+					id: name,
+					displayName: `${name} (${details})`,
+					required: operation !== 'updateRows' && notNull && defaultValue === null && !rowidKey,
+					defaultMatch: Number(row.pk) > 0,
+					canBeUsedToMatch: true,
+					display: true,
+					type: toFieldType(type),
+				};
+			}),
+		};
+	} finally {
+		client.close();
+	}
+}
+
+/**
+ * Load the columns of the selected table
+ */
+export async function getColumns(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const returnData: INodePropertyOptions[] = [];
+
+	try {
+		// Get the currently selected table
+		const currentTable = getCurrentTable.call(this);
+
+		if (!currentTable) {
+			return returnData;
+		}
+
+		// Connect to database
+		const client = await connectToDatabase.call(this);
+
+		try {
+			// Fetch columns
+			const result = await client.execute({
+				sql: 'SELECT name, type FROM pragma_table_info(?)',
+				args: [currentTable],
+			});
+
+			// Add columns to options
+			for (const row of result.rows || []) {
+				const columnName = (row as any).name;
+				const columnType = (row as any).type;
+				returnData.push({
+					name: `${columnName} (${columnType})`,
+					value: columnName,
+				});
+			}
+		} finally {
+			client.close();
+		}
+	} catch (error) {
+		// We can't use NodeOperationError in load options methods
+		console.error('Error loading columns:', error);
+		returnData.push({
+			name: 'Error loading columns',
+			value: '',
+			description: error instanceof Error ? error.message : 'Unknown error',
+		});
+	}
+
+	return returnData;
+}
+
+/**
+ * Load the primary key and unique indexes of the selected table, usable as upsert conflict targets
+ */
+export async function getConflictTargets(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const returnData: INodePropertyOptions[] = [];
+
+	try {
+		// Get the currently selected table
+		const currentTable = getCurrentTable.call(this);
+
+		if (!currentTable) {
+			return returnData;
+		}
+
+		// Connect to database
+		const client = await connectToDatabase.call(this);
+
+		try {
+			// Primary key columns, ordered by their position in the key
+			const tableInfo = await client.execute({
+				sql: 'SELECT name, pk FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk',
+				args: [currentTable],
+			});
+
+			const primaryKey = tableInfo.rows.map(row => (row as any).name as string);
+			if (primaryKey.length > 0) {
+				returnData.push({
+					name: `${primaryKey.join(', ')} (Primary Key)`,
+					value: primaryKey.join(','),
+				});
+			}
+
+			// Unique indexes, partial indexes cannot be used as a plain conflict target
+			const indexList = await client.execute({
+				sql: 'SELECT name, origin FROM pragma_index_list(?) WHERE "unique" = 1 AND partial = 0',
+				args: [currentTable],
+			});
+
+			for (const index of indexList.rows || []) {
+				const indexName = (index as any).name as string;
+				const indexInfo = await client.execute({
+					sql: 'SELECT name FROM pragma_index_info(?) ORDER BY seqno',
+					args: [indexName],
+				});
+
+				const indexColumns = indexInfo.rows.map(row => (row as any).name as string);
+				const value = indexColumns.join(',');
+
+				// Expression indexes have no column names, and the primary key is already listed
+				if (indexColumns.some(column => !column) || returnData.some(option => option.value === value)) {
+					continue;
+				}
+
+				returnData.push({
+					name: `${indexColumns.join(', ')} (Unique Index)`,
+					value,
+					description: indexName,
+				});
+			}
+		} finally {
+			client.close();
+		}
+	} catch (error) {
+		// We can't use NodeOperationError in load options methods
+		console.error('Error loading conflict targets:', error);
+		returnData.push({
+			name: 'Error loading conflict targets',
+			value: '',
+			description: error instanceof Error ? error.message : 'Unknown error',
+		});
+	}
+
+	return returnData;
+}
+
+/**
+ * Load the vector indexes of the selected table
+ */
+export async function getVectorIndexes(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const returnData: INodePropertyOptions[] = [];
+
+	try {
+		// Get the currently selected table
+		const currentTable = getCurrentTable.call(this);
+
+		if (!currentTable) {
+			return returnData;
+		}
+
+		// Connect to database
+		const client = await connectToDatabase.call(this);
+
+		try {
+			// Vector indexes are created on the libsql_vector_idx() expression
+			const result = await client.execute({
+				sql: "SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = ? COLLATE NOCASE AND sql LIKE '%libsql_vector_idx%'",
+				args: [currentTable],
+			});
+
+			for (const row of result.rows || []) {
+				const indexName = (row as any).name;
+				returnData.push({
+					name: indexName,
+					value: indexName,
+				});
+			}
+		} finally {
+			client.close();
+		}
+	} catch (error) {
+		// We can't use NodeOperationError in load options methods
+		console.error('Error loading vector indexes:', error);
+		returnData.push({
+			name: 'Error loading vector indexes',
+			value: '',
+			description: error instanceof Error ? error.message : 'Unknown error',
+		});
+	}
+
+	return returnData;
+}
+
+/**
+ * Load the FTS5 full-text indexes of the database, the ones of the selected table first
+ */
+export async function getFtsIndexes(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const returnData: INodePropertyOptions[] = [];
+
+	try {
+		// Get the currently selected table
+		const currentTable = getCurrentTable.call(this).toLowerCase();
+
+		// Connect to database
+		const client = await connectToDatabase.call(this);
+
+		try {
+			const result = await client.execute({
+				sql: "SELECT name, sql FROM sqlite_master WHERE type = 'table' AND sql LIKE 'CREATE VIRTUAL TABLE%USING fts5%'",
+				args: [],
+			});
+
+			const otherIndexes: INodePropertyOptions[] = [];
+
+			for (const row of result.rows || []) {
+				const indexName = (row as any).name as string;
+				// External content indexes name the table they index
+				const contentTable = ((row as any).sql as string).match(/content\s*=\s*'((?:[^']|'')*)'/i)?.[1]?.replace(/''/g, "'");
+				const option = {
+					name: indexName,
+					value: indexName,
+					description: contentTable ? `Indexes table ${contentTable}` : undefined,
+				};
+
+				if (contentTable && contentTable.toLowerCase() === currentTable) {
+					returnData.push(option);
+				} else {
+					otherIndexes.push(option);
+				}
+			}
+
+			returnData.push(...otherIndexes);
+		} finally {
+			client.close();
+		}
+	} catch (error) {
+		// We can't use NodeOperationError in load options methods
+		console.error('Error loading full-text indexes:', error);
+		returnData.push({
+			name: 'Error loading full-text indexes',
+			value: '',
+			description: error instanceof Error ? error.message : 'Unknown error',
+		});
+	}
+
+	return returnData;
+}
+
+/**
+ * Load the indexes created on the selected table, without the automatic ones of constraints
+ */
+export async function getIndexes(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const returnData: INodePropertyOptions[] = [];
+
+	try {
+		// Get the currently selected table
+		const currentTable = getCurrentTable.call(this);
+
+		if (!currentTable) {
+			return returnData;
+		}
+
+		// Connect to database
+		const client = await connectToDatabase.call(this);
+
+		try {
+			// Indexes SQLite creates for PRIMARY KEY and UNIQUE constraints have no SQL
+			const result = await client.execute({
+				sql: "SELECT name, sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? COLLATE NOCASE AND sql IS NOT NULL ORDER BY name",
+				args: [currentTable],
+			});
+
+			for (const row of result.rows || []) {
+				const indexName = (row as any).name;
+				returnData.push({
+					name: indexName,
+					value: indexName,
+					description: /^\s*CREATE\s+UNIQUE\b/i.test((row as any).sql) ? 'Unique index' : undefined,
+				});
+			}
+		} finally {
+			client.close();
+		}
+	} catch (error) {
+		// We can't use NodeOperationError in load options methods
+		console.error('Error loading indexes:', error);
+		returnData.push({
+			name: 'Error loading indexes',
+			value: '',
+			description: error instanceof Error ? error.message : 'Unknown error',
+		});
+	}
+
+	return returnData;
+}
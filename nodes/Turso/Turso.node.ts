@@ -1,15 +1,50 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+
 import {
+	IBinaryKeyData,
 	IExecuteFunctions,
+	IDataObject,
 	INodeExecutionData,
+	INodeProperties,
+	IPairedItemData,
 	INodeType,
 	INodeTypeDescription,
 	NodeOperationError,
-	INodePropertyOptions,
-	ILoadOptionsFunctions,
 	NodeConnectionType,
+	ResourceMapperValue,
 } from 'n8n-workflow';
 
-import { createClient, LibsqlError } from '@libsql/client';
+import {
+	Client,
+	InArgs,
+	InStatement,
+	InValue,
+	LibsqlError,
+	ResultSet,
+	Transaction,
+	TransactionMode,
+} from '@libsql/client';
+
+import {
+	connectToDatabase,
+	getColumnAffinity,
+	getColumns,
+	getConflictTargets,
+	getConnectionConfig,
+	getFtsIndexes,
+	getIndexes,
+	getMappingColumns,
+	getReadYourWrites,
+	getReplicaState,
+	getTableSchema,
+	getVectorIndexes,
+	quoteIdentifier,
+	searchTables,
+	TableSchema,
+	trimStatement,
+	tursoDbConnectionTest,
+} from './GenericFunctions';
 
 // Define interfaces for our result processing
 interface ResultColumn {
@@ -23,1158 +58,5265 @@ interface ProcessedResult {
 	lastInsertRowid?: string | number;
 }
 
-/**
- * Helper function to handle database errors consistently
- */
-function handleDatabaseError(
-	context: IExecuteFunctions,
-	error: unknown,
-	itemIndex: number,
-	operation: string,
-): never {
-	// Handle libSQL specific errors
-	if (error instanceof LibsqlError) {
-		const errorMessage = `Database error in "${operation}": ${error.message}`;
-		throw new NodeOperationError(context.getNode(), errorMessage, {
-			itemIndex,
-			description: `Error code: ${error.code || 'unknown'}`,
-		});
-	}
+interface BulkInsertSummary {
+	rowsInserted?: number;
+	rowsAffected?: number;
+	chunks: number;
+	firstInsertRowid?: number;
+	lastInsertRowid?: number;
+	results?: ProcessedResult[];
+	schemaChanges?: IDataObject[];
+}
 
-	// Handle connection errors
-	if (error instanceof Error && error.message.includes('connection')) {
-		throw new NodeOperationError(
-			context.getNode(),
-			`Connection error: ${error.message}. Please check your credentials and database URL.`,
-			{ itemIndex },
-		);
-	}
+interface QueryParameter {
+	name?: string;
+	type?: string;
+	value?: unknown;
+	binaryPropertyName?: string;
+}
 
-	// Handle any other errors
-	if (error instanceof Error) {
-		throw new NodeOperationError(context.getNode(), `Error in "${operation}": ${error.message}`, { itemIndex });
-	}
+interface FilterCondition {
+	column?: string;
+	operator?: string;
+	value?: unknown;
+	valueTo?: unknown;
+	group?: number;
+}
 
-	// Fallback for unknown error types
-	throw new NodeOperationError(context.getNode(), `Unknown error in "${operation}"`, { itemIndex });
+interface WhereFilter {
+	clause: string;
+	args: InArgs;
+	columns: string[];
 }
 
-export class Turso implements INodeType {
-	description: INodeTypeDescription = {
-		displayName: 'Turso',
-		name: 'turso',
-		icon: 'file:turso.svg',
-		group: ['transform'],
-		version: 1,
-		subtitle: '={{$parameter["operation"]}}',
-		description: 'Execute operations on Turso database',
-		defaults: {
-			name: 'Turso',
-		},
-		usableAsTool: true,
-		inputs: [NodeConnectionType.Main],
-		outputs: [NodeConnectionType.Main],
-		credentials: [
+// SQL of the comparison operators of the filter builder
+const COMPARISON_OPERATORS: { [operator: string]: string } = {
+	equal: '=',
+	notEqual: '!=',
+	greaterThan: '>',
+	greaterOrEqual: '>=',
+	lessThan: '<',
+	lessOrEqual: '<=',
+	like: 'LIKE',
+	notLike: 'NOT LIKE',
+};
+
+interface VectorColumn {
+	name: string;
+	conversion: string;
+	dimensions?: number;
+}
+
+interface PageCursor {
+	expression: string;
+	direction: string;
+}
+
+interface ColumnDefinition {
+	name?: string;
+	type?: string;
+	customType?: string;
+	primaryKey?: boolean;
+	autoIncrement?: boolean;
+	notNull?: boolean;
+	unique?: boolean;
+	defaultValue?: string;
+	referencesTable?: string;
+	referencesColumn?: string;
+	onDelete?: string;
+}
+
+interface Migration {
+	name: string;
+	sql: string;
+	checksum: string;
+}
+
+// Alias of the value Select Rows pages by, removed from the returned rows
+const CURSOR_ALIAS = '__turso_cursor';
+
+// Function that turns a JSON array into a vector of each libSQL vector column type
+const VECTOR_CONVERSIONS: { [type: string]: string } = {
+	F32_BLOB: 'vector32',
+	FLOAT32: 'vector32',
+	F64_BLOB: 'vector64',
+	FLOAT64: 'vector64',
+	F16_BLOB: 'vector16',
+	FLOAT16: 'vector16',
+	FB16_BLOB: 'vectorb16',
+	FLOATB16: 'vectorb16',
+	F8_BLOB: 'vector8',
+	FLOAT8: 'vector8',
+	F1BIT_BLOB: 'vector1bit',
+	FLOAT1BIT: 'vector1bit',
+};
+
+// Distance function of each vector distance metric
+const VECTOR_DISTANCES: { [metric: string]: string } = {
+	cosine: 'vector_distance_cos',
+	l2: 'vector_distance_l2',
+};
+
+// SQLite's default SQLITE_MAX_VARIABLE_NUMBER, the most parameters a single statement can bind
+const MAX_BOUND_PARAMETERS = 32766;
+
+// File extension and MIME type of each export format
+const EXPORT_FORMATS: { [format: string]: { extension: string; mimeType: string } } = {
+	csv: { extension: 'csv', mimeType: 'text/csv' },
+	jsonLines: { extension: 'jsonl', mimeType: 'application/x-ndjson' },
+	sql: { extension: 'sql', mimeType: 'application/sql' },
+};
+
+// Fields of a single query parameter, shared by every parameter list of the node
+const queryParameterFields: INodeProperties[] = [
+	{
+		displayName: 'Name',
+		name: 'name',
+		type: 'string',
+		default: '',
+		placeholder: ':name',
+		description: 'Name of the placeholder (:name, $name or @name) this value is bound to. Leave empty to bind by position (?).',
+	},
+	{
+		displayName: 'Type',
+		name: 'type',
+		type: 'options',
+		options: [
 			{
-				name: 'tursoDb',
-				required: true,
+				name: 'Blob (From Binary Property)',
+				value: 'blob',
 			},
-		],
-		properties: [
 			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
-				options: [
-					{
-						name: 'Execute Query',
-						value: 'executeQuery',
-						description: 'Execute a SQL query',
-						action: 'Execute a SQL query',
-					},
-					{
-						name: 'Execute Batch',
-						value: 'executeBatch',
-						description: 'Execute multiple SQL queries as a batch',
-						action: 'Execute multiple SQL queries as a batch',
-					},
-					{
-						name: 'Insert Rows',
-						value: 'insertRows',
-						description: 'Insert rows into a table',
-						action: 'Insert rows into a table',
-					},
-					{
-						name: 'Select Rows',
-						value: 'selectRows',
-						description: 'Select rows from a table',
-						action: 'Select rows from a table',
-					},
-					{
-						name: 'Update Rows',
-						value: 'updateRows',
-						description: 'Update rows in a table',
-						action: 'Update rows in a table',
-					},
-					{
-						name: 'Delete Rows',
-						value: 'deleteRows',
-						description: 'Delete rows from a table',
-						action: 'Delete rows from a table',
-					},
-					{
-						name: 'List Tables',
-						value: 'listTables',
-						description: 'List all tables in the database',
-						action: 'List all tables in the database',
-					},
-					{
-						name: 'Describe Table',
-						value: 'describeTable',
-						description: 'Get schema information about a table',
-						action: 'Get schema information about a table',
-					},
-				],
-				default: 'executeQuery',
+				name: 'Boolean',
+				value: 'boolean',
 			},
-			// SQL query parameters
 			{
-				displayName: 'Query',
-				name: 'query',
-				type: 'string',
-				typeOptions: {
-					rows: 4,
-				},
-				displayOptions: {
-					show: {
-						operation: ['executeQuery'],
-					},
-				},
-				default: '',
-				placeholder: 'SELECT * FROM users',
-				description: 'The SQL query to execute',
-				required: true,
+				name: 'Date',
+				value: 'date',
+				description: 'Bound as ISO 8601 text',
 			},
-			// Query parameters
 			{
-				displayName: 'Query Parameters',
-				name: 'queryParams',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-				},
-				displayOptions: {
-					show: {
-						operation: ['executeQuery'],
-					},
-				},
-				default: {},
-				placeholder: 'Add Parameter',
-				options: [
-					{
-						name: 'params',
-						displayName: 'Parameter',
-						values: [
-							{
-								displayName: 'Value',
-								name: 'value',
-								type: 'string',
-								default: '',
-								description: 'Value for the query parameter',
-							},
-						],
-					},
-				],
-				description: 'Parameters for the SQL query in order of appearance (?)',
+				name: 'Integer',
+				value: 'integer',
 			},
-			// Batch queries
 			{
-				displayName: 'Queries',
-				name: 'queries',
-				placeholder: 'Add Query',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-				},
-				displayOptions: {
-					show: {
-						operation: ['executeBatch'],
-					},
-				},
-				default: {},
-				options: [
-					{
-						name: 'queryValues',
-						displayName: 'Query',
-						values: [
-							{
-								displayName: 'Query',
-								name: 'query',
-								type: 'string',
-								default: '',
-								description: 'The SQL query to execute',
-								typeOptions: {
-									rows: 2,
-								},
-								required: true,
-							},
-							{
-								displayName: 'Parameters',
-								name: 'parameters',
-								type: 'string',
-								default: '',
-								description: 'Parameters for the SQL query as a comma-separated list',
-							},
-						],
-					},
-				],
+				name: 'JSON',
+				value: 'json',
+				description: 'Bound as JSON text',
 			},
-			// Insert rows
 			{
-				displayName: 'Table Name',
-				name: 'table',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getTables',
-				},
-				displayOptions: {
-					show: {
-						operation: ['insertRows', 'updateRows', 'describeTable', 'deleteRows', 'selectRows'],
-					},
-				},
-				default: '',
-				required: true,
-				description: 'Name of the table',
+				name: 'Null',
+				value: 'null',
 			},
 			{
-				displayName: 'Columns',
-				name: 'columns',
-				type: 'multiOptions',
-				typeOptions: {
-					loadOptionsMethod: 'getColumns',
-					loadOptionsDependsOn: ['table'],
-				},
-				displayOptions: {
-					show: {
-						operation: ['insertRows', 'updateRows', 'selectRows'],
-					},
-				},
-				default: [],
-				required: true,
-				description: 'Columns to include in the operation',
+				name: 'Real',
+				value: 'real',
 			},
 			{
-				displayName: 'Data Source',
-				name: 'dataSource',
-				type: 'options',
-				displayOptions: {
-					show: {
-						operation: ['insertRows', 'updateRows'],
-					},
-				},
-				options: [
-					{
-						name: 'Input Items',
-						value: 'inputItems',
-						description: 'Use the incoming items as data source',
-					},
-					{
-						name: 'Manual Input',
-						value: 'manualInput',
-						description: 'Enter the data manually',
-					},
-				],
-				default: 'inputItems',
+				name: 'Text',
+				value: 'text',
 			},
-			{
-				displayName: 'Values to Insert',
-				name: 'values',
-				placeholder: 'Add Value',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-				},
-				displayOptions: {
-					show: {
-						operation: ['insertRows', 'updateRows'],
-						dataSource: ['manualInput'],
-					},
-				},
-				default: {},
-				options: [
-					{
-						name: 'valueItems',
-						displayName: 'Values',
-						values: [
-							{
-								displayName: 'Value',
-								name: 'value',
-								type: 'string',
-								default: '',
-								description: 'Value to insert',
-							},
-						],
-					},
-				],
-				description: 'Values to insert in the row',
+		],
+		default: 'text',
+		description: 'The type the value is converted to before it is bound',
+	},
+	{
+		displayName: 'Value',
+		name: 'value',
+		type: 'string',
+		displayOptions: {
+			hide: {
+				type: ['blob', 'null'],
+			},
+		},
+		default: '',
+		description: 'Value for the parameter',
+	},
+	{
+		displayName: 'Binary Property',
+		name: 'binaryPropertyName',
+		type: 'string',
+		displayOptions: {
+			show: {
+				type: ['blob'],
 			},
+		},
+		default: 'data',
+		description: 'Name of the binary property of the input item that holds the value',
+	},
+];
+
+// Fields of a single condition of the filter builder
+const filterConditionFields: INodeProperties[] = [
+	{
+		displayName: 'Column Name or ID',
+		name: 'column',
+		type: 'options',
+		typeOptions: {
+			loadOptionsMethod: 'getColumns',
+			loadOptionsDependsOn: ['table.value'],
+		},
+		default: '',
+		description: 'Column to compare. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+	},
+	{
+		displayName: 'Operator',
+		name: 'operator',
+		type: 'options',
+		options: [
 			{
-				displayName: 'Item Property',
-				name: 'itemsPath',
-				type: 'string',
-				displayOptions: {
-					show: {
-						operation: ['insertRows', 'updateRows'],
-						dataSource: ['inputItems'],
-					},
-				},
-				default: 'data',
-				description: 'The name of the property which contains the values for insert/update. Leave blank if the items themselves are the values.',
+				name: 'Between',
+				value: 'between',
 			},
 			{
-				displayName: 'Where Clause',
-				name: 'whereClause',
-				type: 'string',
-				displayOptions: {
-					show: {
-						operation: ['updateRows', 'deleteRows'],
-					},
-				},
-				default: '',
-				placeholder: 'id = ?',
-				description: 'WHERE condition for the operation (without the "WHERE" keyword)',
-				required: true,
+				name: 'Equal',
+				value: 'equal',
 			},
 			{
-				displayName: 'Where Parameters',
-				name: 'whereParams',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-				},
-				displayOptions: {
-					show: {
-						operation: ['updateRows', 'deleteRows'],
-					},
-				},
-				default: {},
-				placeholder: 'Add Parameter',
-				options: [
-					{
-						name: 'params',
-						displayName: 'Parameter',
-						values: [
-							{
-								displayName: 'Value',
-								name: 'value',
-								type: 'string',
-								default: '',
-								description: 'Value for the where parameter',
-							},
-						],
-					},
-				],
-				description: 'Parameters for the WHERE clause in order of appearance (?)',
+				name: 'Greater Than',
+				value: 'greaterThan',
 			},
-			// Add Select All Columns option
 			{
-				displayName: 'Select All Columns',
-				name: 'selectAllColumns',
-				type: 'boolean',
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-					},
-				},
-				default: false,
-				description: 'Whether to select all columns using *',
+				name: 'Greater Than or Equal',
+				value: 'greaterOrEqual',
 			},
-			// Where clause for select
 			{
-				displayName: 'Use Where Clause',
-				name: 'useWhere',
-				type: 'boolean',
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-					},
-				},
-				default: false,
-				description: 'Whether to add a WHERE clause to filter results',
+				name: 'In',
+				value: 'in',
 			},
-			// Where clause for select with condition
 			{
-				displayName: 'Where Clause',
-				name: 'whereClauseSelect',
-				type: 'string',
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-						useWhere: [true],
-					},
-				},
-				default: '',
-				placeholder: 'id = ?',
-				description: 'WHERE condition for the select (without the "WHERE" keyword)',
-				required: true,
+				name: 'Is Not Null',
+				value: 'isNotNull',
 			},
-			// Where parameters for select
 			{
-				displayName: 'Where Parameters',
-				name: 'whereParamsSelect',
-				type: 'fixedCollection',
-				typeOptions: {
-					multipleValues: true,
-				},
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-						useWhere: [true],
-					},
-				},
-				default: {},
-				placeholder: 'Add Parameter',
-				options: [
-					{
-						name: 'params',
-						displayName: 'Parameter',
-						values: [
-							{
-								displayName: 'Value',
-								name: 'value',
-								type: 'string',
-								default: '',
-								description: 'Value for the where parameter',
-							},
-						],
-					},
-				],
-				description: 'Parameters for the WHERE clause in order of appearance (?)',
+				name: 'Is Null',
+				value: 'isNull',
 			},
-			// Order By for Select
 			{
-				displayName: 'Use Order By',
-				name: 'useOrderBy',
-				type: 'boolean',
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-					},
-				},
-				default: false,
-				description: 'Whether to add an ORDER BY clause',
+				name: 'Less Than',
+				value: 'lessThan',
 			},
 			{
-				displayName: 'Order By',
-				name: 'orderBy',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getColumns',
-					loadOptionsDependsOn: ['table'],
-				},
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-						useOrderBy: [true],
-					},
-				},
-				default: '',
-				description: 'Column to order results by',
+				name: 'Less Than or Equal',
+				value: 'lessOrEqual',
 			},
 			{
-				displayName: 'Order Direction',
-				name: 'orderDirection',
-				type: 'options',
-				options: [
-					{
-						name: 'Ascending (ASC)',
-						value: 'ASC',
-					},
-					{
-						name: 'Descending (DESC)',
-						value: 'DESC',
-					},
-				],
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-						useOrderBy: [true],
-					},
-				},
-				default: 'ASC',
-				description: 'The direction to order results by',
+				name: 'Like',
+				value: 'like',
 			},
-			// Limit and Offset for Select
 			{
-				displayName: 'Use Limit',
-				name: 'useLimit',
-				type: 'boolean',
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-					},
-				},
-				default: false,
-				description: 'Whether to limit the number of results',
+				name: 'Not Equal',
+				value: 'notEqual',
 			},
 			{
-				displayName: 'Limit',
-				name: 'limit',
-				type: 'number',
-				typeOptions: {
-					minValue: 1,
-				},
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-						useLimit: [true],
-					},
-				},
-				default: 100,
-				description: 'Maximum number of results to return',
+				name: 'Not In',
+				value: 'notIn',
 			},
 			{
-				displayName: 'Offset',
-				name: 'offset',
-				type: 'number',
-				typeOptions: {
-					minValue: 0,
-				},
-				displayOptions: {
-					show: {
-						operation: ['selectRows'],
-						useLimit: [true],
-					},
-				},
-				default: 0,
-				description: 'Number of results to skip',
+				name: 'Not Like',
+				value: 'notLike',
 			},
 		],
-	};
+		default: 'equal',
+	},
+	{
+		displayName: 'Value',
+		name: 'value',
+		type: 'string',
+		displayOptions: {
+			hide: {
+				operator: ['isNull', 'isNotNull'],
+			},
+		},
+		default: '',
+		description: 'Value to compare with. For In and Not In, a comma-separated list or a JSON array. For Between, the lower bound.',
+	},
+	{
+		displayName: 'To Value',
+		name: 'valueTo',
+		type: 'string',
+		displayOptions: {
+			show: {
+				operator: ['between'],
+			},
+		},
+		default: '',
+		description: 'Upper bound of the range, included like the lower bound',
+	},
+	{
+		displayName: 'Group',
+		name: 'group',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 1,
+		description: 'Conditions with the same group number are combined first, see "Combine Conditions"',
+	},
+];
+
+// Fields of a column definition, shared by Create Table and Add Column
+const columnDefinitionFields: INodeProperties[] = [
+	{
+		displayName: 'Name',
+		name: 'name',
+		type: 'string',
+		default: '',
+		description: 'Name of the column',
+	},
+	{
+		displayName: 'Type',
+		name: 'type',
+		type: 'options',
+		options: [
+			{
+				name: 'Any',
+				value: 'ANY',
+				description: 'Any type of value, kept as it is in a strict table',
+			},
+			{
+				name: 'Blob',
+				value: 'BLOB',
+			},
+			{
+				name: 'Custom',
+				value: 'custom',
+				description: 'Another declared type, e.g. F32_BLOB(1536) for a vector column',
+			},
+			{
+				name: 'Integer',
+				value: 'INTEGER',
+			},
+			{
+				name: 'Numeric',
+				value: 'NUMERIC',
+			},
+			{
+				name: 'Real',
+				value: 'REAL',
+			},
+			{
+				name: 'Text',
+				value: 'TEXT',
+			},
+		],
+		default: 'TEXT',
+		description: 'Declared type of the column',
+	},
+	{
+		displayName: 'Custom Type',
+		name: 'customType',
+		type: 'string',
+		displayOptions: {
+			show: {
+				type: ['custom'],
+			},
+		},
+		default: '',
+		placeholder: 'F32_BLOB(1536)',
+		description: 'Declared type of the column',
+	},
+	{
+		displayName: 'Primary Key',
+		name: 'primaryKey',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the column is the primary key. When several columns are, they make up the key together.',
+	},
+	{
+		displayName: 'Auto Increment',
+		name: 'autoIncrement',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				primaryKey: [true],
+				type: ['INTEGER'],
+			},
+		},
+		default: false,
+		description: 'Whether to never reuse the IDs of deleted rows. An INTEGER primary key is assigned automatically either way.',
+	},
+	{
+		displayName: 'Not Null',
+		name: 'notNull',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the column must have a value',
+	},
+	{
+		displayName: 'Unique',
+		name: 'unique',
+		type: 'boolean',
+		default: false,
+		description: 'Whether two rows may not have the same value in the column',
+	},
+	{
+		displayName: 'Default Value',
+		name: 'defaultValue',
+		type: 'string',
+		default: '',
+		placeholder: 'CURRENT_TIMESTAMP',
+		description: "Value of the column when none is given. Numbers, NULL, CURRENT_TIMESTAMP and expressions in parentheses are used as they are, any other text as a string. Use '' for an empty string.",
+	},
+	{
+		displayName: 'References Table',
+		name: 'referencesTable',
+		type: 'string',
+		default: '',
+		description: 'Table the column refers to as a foreign key. Leave empty for no foreign key.',
+	},
+	{
+		displayName: 'References Column',
+		name: 'referencesColumn',
+		type: 'string',
+		default: '',
+		description: 'Column of the referenced table. Leave empty to refer to its primary key.',
+	},
+	{
+		displayName: 'On Delete',
+		name: 'onDelete',
+		type: 'options',
+		options: [
+			{
+				name: 'Cascade',
+				value: 'CASCADE',
+				description: 'Delete the row as well',
+			},
+			{
+				name: 'No Action',
+				value: 'NO ACTION',
+				description: 'Fail when the referenced row is deleted, if foreign keys are enforced',
+			},
+			{
+				name: 'Restrict',
+				value: 'RESTRICT',
+				description: 'Fail right away when the referenced row is deleted, if foreign keys are enforced',
+			},
+			{
+				name: 'Set Default',
+				value: 'SET DEFAULT',
+				description: 'Set the column to its default value',
+			},
+			{
+				name: 'Set Null',
+				value: 'SET NULL',
+				description: 'Set the column to NULL',
+			},
+		],
+		default: 'NO ACTION',
+		description: 'What happens to the row when the referenced row is deleted',
+	},
+];
+
+/**
+ * Parameters of the filter builder, once for Update/Delete and once for Select.
+ * Matching on key columns of the input data is only offered for Update/Delete.
+ */
+function getFilterProperties(operations: string[], suffix: string): INodeProperties[] {
+	const show = suffix ? { operation: operations, useWhere: [true] } : { operation: operations };
+
+	const matchProperties: INodeProperties[] = suffix
+		? []
+		: [
+				{
+					displayName: 'Match On Column Names or IDs',
+					name: 'matchColumns',
+					type: 'multiOptions',
+					typeOptions: {
+						loadOptionsMethod: 'getColumns',
+						loadOptionsDependsOn: ['table.value'],
+					},
+					displayOptions: {
+						show: {
+							...show,
+							filterMode: ['matchColumns'],
+						},
+					},
+					default: [],
+					required: true,
+					description: 'Key columns whose values are taken from each row of the input data. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				},
+			];
+
+	return [
+		{
+			displayName: 'Filter Using',
+			name: `filterMode${suffix}`,
+			type: 'options',
+			displayOptions: {
+				show,
+			},
+			options: [
+				{
+					name: 'Conditions',
+					value: 'conditions',
+					description: 'Build the WHERE clause from a list of conditions',
+				},
+				...(suffix
+					? []
+					: [
+							{
+								name: 'Match On Columns',
+								value: 'matchColumns',
+								description: 'Affect the row whose key columns equal the values of each input row',
+							},
+						]),
+				{
+					name: 'Where Clause (Advanced)',
+					value: 'raw',
+					description: 'Write the WHERE clause in SQL',
+				},
+			],
+			default: 'raw',
+			description: 'How to define which rows are affected',
+		},
+		...matchProperties,
+		...getConditionProperties({ ...show, [`filterMode${suffix}`]: ['conditions'] }, suffix),
+	];
+}
+
+/**
+ * Condition list of the filter builder and how its conditions are combined
+ */
+function getConditionProperties(show: { [parameter: string]: Array<string | boolean> }, suffix: string): INodeProperties[] {
+	return [
+		{
+			displayName: 'Conditions',
+			name: `filters${suffix}`,
+			type: 'fixedCollection',
+			typeOptions: {
+				multipleValues: true,
+			},
+			displayOptions: {
+				show,
+			},
+			default: {},
+			placeholder: 'Add Condition',
+			options: [
+				{
+					name: 'conditions',
+					displayName: 'Condition',
+					values: filterConditionFields,
+				},
+			],
+		},
+		{
+			displayName: 'Combine Conditions',
+			name: `combineConditions${suffix}`,
+			type: 'options',
+			displayOptions: {
+				show,
+			},
+			options: [
+				{
+					name: 'AND',
+					value: 'AND',
+					description: 'Conditions of a group must all match, it is enough when one group matches',
+				},
+				{
+					name: 'OR',
+					value: 'OR',
+					description: 'One condition of a group must match, every group must match',
+				},
+			],
+			default: 'AND',
+			description: 'How the conditions of a group are combined. Groups are combined with the other operator, e.g. (a AND b) OR (c AND d).',
+		},
+	];
+}
+
+/**
+ * Read the value list of an IN or NOT IN condition
+ */
+function toValueList(this: IExecuteFunctions, value: unknown, itemIndex: number): InValue[] {
+	if (Array.isArray(value)) {
+		return value.map(toBindValue);
+	}
+
+	const text = value === undefined || value === null ? '' : String(value).trim();
+
+	if (text.startsWith('[')) {
+		const parsed = parseJsonArgs.call(this, text, itemIndex);
+		return Array.isArray(parsed) ? parsed : [];
+	}
+
+	return text === '' ? [] : text.split(',').map(entry => entry.trim());
+}
+
+/**
+ * Compile the conditions of the filter builder into a parameterized WHERE clause
+ */
+function buildFilterClause(this: IExecuteFunctions, suffix: string, itemIndex: number): WhereFilter {
+	const conditions = this.getNodeParameter(`filters${suffix}.conditions`, itemIndex, []) as FilterCondition[];
+	const combinator = this.getNodeParameter(`combineConditions${suffix}`, itemIndex, 'AND') === 'OR' ? 'OR' : 'AND';
+	const groupCombinator = combinator === 'AND' ? 'OR' : 'AND';
+
+	const groups = new Map<number, string[]>();
+	const args: InValue[] = [];
+	const columns: string[] = [];
+
+	for (const condition of conditions) {
+		const column = (condition.column || '').trim();
+		const operator = condition.operator || 'equal';
+
+		if (column === '') {
+			throw new NodeOperationError(this.getNode(), 'Every condition needs a column', { itemIndex });
+		}
+
+		const identifier = quoteIdentifier(column);
+		let sql: string;
+
+		if (operator === 'isNull' || operator === 'isNotNull') {
+			sql = `${identifier} IS ${operator === 'isNull' ? 'NULL' : 'NOT NULL'}`;
+		} else if (operator === 'in' || operator === 'notIn') {
+			const values = toValueList.call(this, condition.value, itemIndex);
+
+			if (values.length === 0) {
+				throw new NodeOperationError(this.getNode(), `The ${operator === 'in' ? 'In' : 'Not In'} condition on "${column}" needs at least one value`, { itemIndex });
+			}
+
+			sql = `${identifier} ${operator === 'in' ? 'IN' : 'NOT IN'} (${values.map(() => '?').join(', ')})`;
+			args.push(...values);
+		} else if (operator === 'between') {
+			sql = `${identifier} BETWEEN ? AND ?`;
+			args.push(toBindValue(condition.value), toBindValue(condition.valueTo));
+		} else if (COMPARISON_OPERATORS[operator]) {
+			sql = `${identifier} ${COMPARISON_OPERATORS[operator]} ?`;
+			args.push(toBindValue(condition.value));
+		} else {
+			throw new NodeOperationError(this.getNode(), `Unknown condition operator '${operator}'`, { itemIndex });
+		}
+
+		const group = Number(condition.group) || 1;
+		groups.set(group, [...(groups.get(group) ?? []), sql]);
+		columns.push(column);
+	}
+
+	const groupClauses = [...groups.keys()]
+		.sort((a, b) => a - b)
+		.map(group => {
+			const clauses = groups.get(group) as string[];
+			return clauses.length === 1 ? clauses[0] : `(${clauses.join(` ${combinator} `)})`;
+		});
+
+	return {
+		clause: groupClauses.join(` ${groupCombinator} `),
+		args,
+		columns,
+	};
+}
+
+/**
+ * Key columns of the "Match On Columns" filter mode, none in the other modes
+ */
+function getMatchColumns(this: IExecuteFunctions, itemIndex: number): string[] {
+	if (this.getNodeParameter('filterMode', itemIndex, 'raw') !== 'matchColumns') {
+		return [];
+	}
+
+	const matchColumns = this.getNodeParameter('matchColumns', itemIndex, []) as string[];
+
+	if (matchColumns.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'At least one column to match on must be selected', { itemIndex });
+	}
+
+	return matchColumns;
+}
+
+/**
+ * WHERE clause that matches a row by its key columns, the key values are bound per row.
+ * IS also matches NULL keys, where = would never be true.
+ */
+function buildMatchFilter(matchColumns: string[]): WhereFilter {
+	return {
+		clause: matchColumns.map(column => `${quoteIdentifier(column)} IS ?`).join(' AND '),
+		args: [],
+		columns: matchColumns,
+	};
+}
+
+/**
+ * Pair the key columns with their values, to report a key in the output
+ */
+function toKeyObject(matchColumns: string[], keyValues: unknown[]): IDataObject {
+	const key: IDataObject = {};
+	matchColumns.forEach((column, index) => {
+		key[column] = keyValues[index] as IDataObject[keyof IDataObject];
+	});
+	return key;
+}
+
+/**
+ * Read the WHERE clause and its arguments, either from the filter builder
+ * or from the hand-written clause and its parameters
+ */
+async function getWhereFilter(this: IExecuteFunctions, suffix: string, itemIndex: number): Promise<WhereFilter> {
+	const filterMode = this.getNodeParameter(`filterMode${suffix}`, itemIndex, 'raw') as string;
+
+	if (filterMode === 'conditions') {
+		return buildFilterClause.call(this, suffix, itemIndex);
+	}
+
+	const clause = this.getNodeParameter(suffix ? 'whereClauseSelect' : 'whereClause', itemIndex) as string;
+
+	return {
+		clause: (clause || '').trim(),
+		args: await getQueryArgs.call(this, suffix ? 'whereParamsSelect' : 'whereParams', itemIndex),
+		columns: [],
+	};
+}
+
+/**
+ * Remove the :, $ or @ prefix of a named parameter
+ */
+function normalizeParameterName(name: string): string {
+	const trimmed = name.trim();
+	return /^[:$@]/.test(trimmed) ? trimmed.slice(1) : trimmed;
+}
+
+/**
+ * Convert a value that came from JSON into something libSQL can bind
+ */
+function toBindValue(value: unknown): InValue {
+	if (value === undefined || value === null) {
+		return null;
+	}
+	if (typeof value === 'object' && !(value instanceof Uint8Array) && !(value instanceof Date)) {
+		return JSON.stringify(value);
+	}
+	return value as InValue;
+}
+
+/**
+ * Convert a JSON parameter into something libSQL can bind. libSQL binds every number
+ * and boolean as REAL, so whole numbers and booleans are bound as integers instead.
+ */
+function toParameterValue(value: unknown): InValue {
+	if (typeof value === 'number' && Number.isSafeInteger(value)) {
+		return BigInt(value);
+	}
+	if (typeof value === 'boolean') {
+		return BigInt(value ? 1 : 0);
+	}
+	return toBindValue(value);
+}
+
+/**
+ * Turn a JSON array into positional or a JSON object into named arguments
+ */
+function parseJsonArgs(this: IExecuteFunctions, parameters: unknown, itemIndex: number): InArgs {
+	let parsed = parameters;
+
+	if (typeof parsed === 'string') {
+		if (parsed.trim() === '') {
+			return [];
+		}
+		try {
+			parsed = JSON.parse(parsed);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'Parameters must be a valid JSON array or object', { itemIndex });
+		}
+	}
+
+	if (Array.isArray(parsed)) {
+		return parsed.map(toParameterValue);
+	}
+
+	if (typeof parsed === 'object' && parsed !== null) {
+		const args: Record<string, InValue> = {};
+		for (const [name, value] of Object.entries(parsed as IDataObject)) {
+			args[normalizeParameterName(name)] = toParameterValue(value);
+		}
+		return args;
+	}
+
+	throw new NodeOperationError(this.getNode(), 'Parameters must be a JSON array or object', { itemIndex });
+}
+
+/**
+ * Convert a query parameter to the value of its type
+ */
+async function convertQueryParameter(
+	this: IExecuteFunctions,
+	parameter: QueryParameter,
+	itemIndex: number,
+): Promise<InValue> {
+	const { value } = parameter;
+	const text = value === undefined || value === null ? '' : String(value);
+
+	switch (parameter.type || 'text') {
+		case 'null':
+			return null;
+		case 'integer': {
+			// A bigint is bound as INTEGER, a number would be bound as REAL
+			if (typeof value === 'number' && Number.isSafeInteger(value)) {
+				return BigInt(value);
+			}
+			if (!/^[-+]?\d+$/.test(text.trim())) {
+				throw new NodeOperationError(this.getNode(), `Parameter value '${text}' is not an integer`, { itemIndex });
+			}
+			return BigInt(text.trim().replace(/^\+/, ''));
+		}
+		case 'real': {
+			const real = typeof value === 'number' ? value : Number(text);
+			if (text.trim() === '' || Number.isNaN(real)) {
+				throw new NodeOperationError(this.getNode(), `Parameter value '${text}' is not a number`, { itemIndex });
+			}
+			return real;
+		}
+		case 'boolean': {
+			if (typeof value === 'boolean') {
+				return BigInt(value ? 1 : 0);
+			}
+			const normalized = text.trim().toLowerCase();
+			if (['true', '1', 'yes'].includes(normalized)) {
+				return BigInt(1);
+			}
+			if (['false', '0', 'no', ''].includes(normalized)) {
+				return BigInt(0);
+			}
+			throw new NodeOperationError(this.getNode(), `Parameter value '${text}' is not a boolean`, { itemIndex });
+		}
+		case 'json': {
+			if (typeof value === 'object' && value !== null) {
+				return JSON.stringify(value);
+			}
+			try {
+				return JSON.stringify(JSON.parse(text));
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), `Parameter value '${text}' is not valid JSON`, { itemIndex });
+			}
+		}
+		case 'date': {
+			const date = value instanceof Date ? value : new Date(text);
+			if (Number.isNaN(date.getTime())) {
+				throw new NodeOperationError(this.getNode(), `Parameter value '${text}' is not a valid date`, { itemIndex });
+			}
+			return date.toISOString();
+		}
+		case 'blob': {
+			const binaryPropertyName = parameter.binaryPropertyName || 'data';
+			this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+			return await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+		}
+		default:
+			return text;
+	}
+}
+
+/**
+ * Build the arguments of a query from one of the node's parameter lists,
+ * either from the typed fields or from the JSON parameters input
+ */
+async function getQueryArgs(this: IExecuteFunctions, parameterList: string, itemIndex: number): Promise<InArgs> {
+	const parameterMode = this.getNodeParameter('parameterMode', itemIndex, 'fields') as string;
+
+	if (parameterMode === 'json') {
+		const parametersJson = this.getNodeParameter('parametersJson', itemIndex, '[]');
+		return parseJsonArgs.call(this, parametersJson, itemIndex);
+	}
+
+	const parameters = this.getNodeParameter(`${parameterList}.params`, itemIndex, []) as QueryParameter[];
+	const namedCount = parameters.filter(parameter => parameter.name && parameter.name.trim() !== '').length;
+
+	if (namedCount > 0 && namedCount < parameters.length) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Either all parameters must have a name or none of them',
+			{ itemIndex },
+		);
+	}
+
+	if (namedCount > 0) {
+		const args: Record<string, InValue> = {};
+		for (const parameter of parameters) {
+			args[normalizeParameterName(parameter.name as string)] = await convertQueryParameter.call(this, parameter, itemIndex);
+		}
+		return args;
+	}
+
+	const args: InValue[] = [];
+	for (const parameter of parameters) {
+		args.push(await convertQueryParameter.call(this, parameter, itemIndex));
+	}
+	return args;
+}
+
+/**
+ * Parse the parameters of a batch query. A JSON array or object keeps the value types,
+ * anything else is read as a comma-separated list of text values.
+ */
+function parseBatchParameters(this: IExecuteFunctions, parameters: string, itemIndex: number): InArgs {
+	const trimmed = (parameters || '').trim();
+
+	if (trimmed === '') {
+		return [];
+	}
+
+	if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+		return parseJsonArgs.call(this, trimmed, itemIndex);
+	}
+
+	return trimmed.split(',').map(p => p.trim());
+}
+
+/**
+ * Convert a libSQL result set into the shape returned by the node
+ */
+function toProcessedResult(result: ResultSet): ProcessedResult {
+	const columnNames = result.columns?.map(column => {
+		// The column can be either an object with a name property or a string
+		if (typeof column === 'string') {
+			return column;
+		}
+		// Otherwise it should be an object with a name property
+		return (column as unknown as ResultColumn).name;
+	}) || [];
+
+	return {
+		columns: columnNames,
+		rows: result.rows || [],
+		rowsAffected: result.rowsAffected,
+		lastInsertRowid: result.lastInsertRowid,
+	} as ProcessedResult;
+}
+
+/**
+ * Rows of a result as plain objects, one per output item
+ */
+function rowsToJson(result: ProcessedResult): IDataObject[] {
+	return result.rows.map(row => ({ ...(row as IDataObject) }));
+}
+
+/**
+ * Replace the row objects of a result by arrays of values in column order.
+ * libSQL rows are read by position, plain objects built by the node by column name.
+ */
+function toCompactResult(result: ProcessedResult): ProcessedResult {
+	return {
+		...result,
+		rows: result.rows.map(row =>
+			result.columns.map((column, index) =>
+				index in (row as object) ? (row as unknown[])[index] : (row as IDataObject)[column],
+			),
+		),
+	};
+}
+
+/**
+ * Find a key to page through a table with keyset pagination: the primary key when the
+ * rows are ordered by it, or the rowid when they are not ordered. Returns undefined
+ * when the table has to be paged with OFFSET.
+ */
+async function getPageCursor(
+	client: Client,
+	table: string,
+	orderBy: string | undefined,
+	orderDirection: string,
+): Promise<PageCursor | undefined> {
+	if (orderBy) {
+		const primaryKey = await client.execute({
+			sql: 'SELECT name, type, "notnull" FROM pragma_table_info(?) WHERE pk > 0',
+			args: [table],
+		});
+
+		// Only a single column key without NULLs orders every row exactly once
+		const key = primaryKey.rows.length === 1 ? primaryKey.rows[0] : undefined;
+		if (
+			key &&
+			(key.name as string).toLowerCase() === orderBy.toLowerCase() &&
+			(Number(key.notnull) === 1 || (key.type as string).toUpperCase() === 'INTEGER')
+		) {
+			return { expression: quoteIdentifier(key.name as string), direction: orderDirection };
+		}
+
+		return undefined;
+	}
+
+	// Views and WITHOUT ROWID tables have no rowid
+	try {
+		await client.execute({ sql: `SELECT rowid FROM ${quoteIdentifier(table)} LIMIT 0`, args: [] });
+		return { expression: 'rowid', direction: 'ASC' };
+	} catch (error) {
+		return undefined;
+	}
+}
+
+/**
+ * Read the matching rows page by page, so no single response has to hold the whole table.
+ * The source is a quoted table name or a parenthesized query.
+ */
+async function* readPages(
+	client: Client,
+	select: { columnsList: string; source: string; whereClause: string; whereArgs: InArgs; orderByClause: string },
+	cursor: PageCursor | undefined,
+	pageSize: number,
+): AsyncGenerator<ProcessedResult> {
+	const { columnsList, source, whereClause, whereArgs, orderByClause } = select;
+	const named = !Array.isArray(whereArgs);
+	let cursorValue: InValue | undefined;
+	let offset = 0;
+
+	while (true) {
+		const conditions = whereClause ? [`(${whereClause})`] : [];
+		let args: InArgs = named ? { ...whereArgs } : [...(whereArgs as InValue[])];
+		let sql = `SELECT ${columnsList}`;
+
+		if (cursor) {
+			sql += `, ${cursor.expression} AS ${CURSOR_ALIAS}`;
+
+			if (cursorValue !== undefined) {
+				const comparison = cursor.direction === 'DESC' ? '<' : '>';
+				conditions.push(`${cursor.expression} ${comparison} ${named ? ':__cursor' : '?'}`);
+				args = named
+					? { ...(args as Record<string, InValue>), __cursor: cursorValue }
+					: [...(args as InValue[]), cursorValue];
+			}
+		}
+
+		sql += ` FROM ${source}`;
+
+		if (conditions.length > 0) {
+			sql += ` WHERE ${conditions.join(' AND ')}`;
+		}
+
+		sql += cursor ? ` ORDER BY ${cursor.expression} ${cursor.direction}` : orderByClause;
+		sql += ` LIMIT ${pageSize}`;
+
+		if (!cursor && offset > 0) {
+			sql += ` OFFSET ${offset}`;
+		}
+
+		const page = toProcessedResult(await client.execute({ sql, args }));
+		const rows: IDataObject[] = [];
+
+		for (const row of page.rows as IDataObject[]) {
+			cursorValue = row[CURSOR_ALIAS] as InValue;
+			delete row[CURSOR_ALIAS];
+			rows.push(row);
+		}
+
+		yield {
+			columns: page.columns.filter(column => column !== CURSOR_ALIAS),
+			rows,
+		};
+
+		if (page.rows.length < pageSize) {
+			break;
+		}
+
+		offset += pageSize;
+	}
+}
+
+/**
+ * Hand out the rows of a result that was read at once in pages, the first one even when it is empty
+ */
+async function* splitIntoPages(result: ProcessedResult, pageSize: number): AsyncGenerator<ProcessedResult> {
+	let start = 0;
+
+	do {
+		yield {
+			columns: result.columns,
+			rows: result.rows.slice(start, start + pageSize),
+		};
+		start += pageSize;
+	} while (start < result.rows.length);
+}
+
+/**
+ * Select every matching row page by page and collect them in one result
+ */
+async function selectAllPages(
+	client: Client,
+	select: { columnsList: string; table: string; whereClause: string; whereArgs: InArgs; orderByClause: string },
+	cursor: PageCursor | undefined,
+	pageSize: number,
+): Promise<ProcessedResult> {
+	const rows: unknown[] = [];
+	let columns: string[] = [];
+
+	for await (const page of readPages(client, { ...select, source: quoteIdentifier(select.table) }, cursor, pageSize)) {
+		columns = page.columns;
+		rows.push(...page.rows);
+	}
+
+	return {
+		columns,
+		rows,
+	};
+}
+
+/**
+ * Quote a text as an SQL string literal, for settings that cannot be bound as parameters
+ */
+function quoteLiteral(text: string): string {
+	return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Write a value as a CSV field, quoted when it holds the delimiter, a quote or a line break
+ */
+function toCsvField(value: unknown, delimiter: string): string {
+	let text: string;
+
+	if (value === null || value === undefined) {
+		text = '';
+	} else if (value instanceof ArrayBuffer) {
+		text = Buffer.from(value).toString('base64');
+	} else if (typeof value === 'object') {
+		text = JSON.stringify(value);
+	} else {
+		text = String(value);
+	}
+
+	if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+		return `"${text.replace(/"/g, '""')}"`;
+	}
+
+	return text;
+}
+
+/**
+ * Write a value as an SQL literal of an INSERT statement
+ */
+function toSqlLiteral(value: unknown): string {
+	if (value === null || value === undefined) {
+		return 'NULL';
+	}
+
+	if (value instanceof ArrayBuffer) {
+		return `X'${Buffer.from(value).toString('hex')}'`;
+	}
+
+	if (typeof value === 'number') {
+		if (Number.isNaN(value)) {
+			return 'NULL';
+		}
+		// SQLite reads numbers beyond the REAL range as infinity
+		return Number.isFinite(value) ? String(value) : value > 0 ? '9e999' : '-9e999';
+	}
+
+	if (typeof value === 'bigint') {
+		return value.toString();
+	}
+
+	if (typeof value === 'boolean') {
+		return value ? '1' : '0';
+	}
+
+	return quoteLiteral(typeof value === 'object' ? JSON.stringify(value) : String(value));
+}
+
+/**
+ * Turn pages of rows into the lines of an export file, one page at a time,
+ * and count the rows written
+ */
+async function* writeExport(
+	pages: AsyncGenerator<ProcessedResult>,
+	options: { format: string; delimiter: string; headerRow: boolean; insertTable: string },
+	counter: { rows: number },
+): AsyncGenerator<Buffer> {
+	const { format, delimiter, headerRow, insertTable } = options;
+	let firstPage = true;
+
+	for await (const page of pages) {
+		const { columns } = page;
+		const rows = page.rows as IDataObject[];
+		const lines: string[] = [];
+
+		if (firstPage && format === 'csv' && headerRow) {
+			lines.push(columns.map(column => toCsvField(column, delimiter)).join(delimiter));
+		}
+		firstPage = false;
+
+		for (const row of rows) {
+			if (format === 'csv') {
+				lines.push(columns.map(column => toCsvField(row[column], delimiter)).join(delimiter));
+			} else if (format === 'jsonLines') {
+				const json: IDataObject = {};
+				for (const column of columns) {
+					json[column] = row[column];
+				}
+				// Blobs are written as base64 text
+				lines.push(
+					JSON.stringify(json, (_key, value) =>
+						value instanceof ArrayBuffer ? Buffer.from(value).toString('base64') : value,
+					),
+				);
+			} else {
+				const values = columns.map(column => toSqlLiteral(row[column])).join(', ');
+				lines.push(
+					`INSERT INTO ${quoteIdentifier(insertTable)} (${columns.map(quoteIdentifier).join(', ')}) VALUES (${values});`,
+				);
+			}
+		}
+
+		counter.rows += rows.length;
+
+		if (lines.length > 0) {
+			yield Buffer.from(lines.join('\n') + '\n', 'utf8');
+		}
+	}
+}
+
+/**
+ * Read the vector type and dimensions of a column from its declared type, e.g. F32_BLOB(1536)
+ */
+async function getVectorColumn(
+	this: IExecuteFunctions,
+	client: Client,
+	table: string,
+	column: string,
+	itemIndex: number,
+): Promise<VectorColumn> {
+	const result = await client.execute({
+		sql: 'SELECT name, type FROM pragma_table_info(?) WHERE name = ? COLLATE NOCASE',
+		args: [table, column],
+	});
+
+	const row = result.rows[0];
+	const declaredType = ((row?.type as string) || '').trim();
+	const match = declaredType.match(/^([A-Za-z0-9_]+)\s*(?:\(\s*(\d+)\s*\))?$/);
+	const conversion = match ? VECTOR_CONVERSIONS[match[1].toUpperCase()] : undefined;
+
+	if (!row || !conversion) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Column "${column}" is not a vector column (declared type "${declaredType}")`,
+			{
+				itemIndex,
+				description: 'Vector columns are declared with a vector type and their dimensions, e.g. F32_BLOB(1536)',
+			},
+		);
+	}
+
+	return {
+		name: row.name as string,
+		conversion,
+		dimensions: match?.[2] ? Number(match[2]) : undefined,
+	};
+}
+
+/**
+ * Check an embedding and serialize it as the JSON array text the vector functions take
+ */
+function toVectorText(this: IExecuteFunctions, value: unknown, column: VectorColumn, itemIndex: number): string {
+	let vector = value;
+
+	if (typeof vector === 'string') {
+		try {
+			vector = JSON.parse(vector);
+		} catch (error) {
+			vector = undefined;
+		}
+	}
+
+	if (!Array.isArray(vector) || vector.length === 0 || !vector.every(entry => typeof entry === 'number' && Number.isFinite(entry))) {
+		throw new NodeOperationError(this.getNode(), 'The embedding must be an array of numbers', { itemIndex });
+	}
+
+	if (column.dimensions !== undefined && vector.length !== column.dimensions) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`The embedding has ${vector.length} dimensions, column "${column.name}" expects ${column.dimensions}`,
+			{ itemIndex },
+		);
+	}
+
+	return JSON.stringify(vector);
+}
+
+/**
+ * SQL of the default value of a column, keeping numbers, keywords, literals and expressions as they are
+ */
+function toDefaultValue(value: string): string {
+	const trimmed = value.trim();
+
+	if (
+		/^[-+]?\d+(\.\d+)?$/.test(trimmed) ||
+		/^(NULL|TRUE|FALSE|CURRENT_TIME|CURRENT_DATE|CURRENT_TIMESTAMP)$/i.test(trimmed) ||
+		/^'(?:[^']|'')*'$/.test(trimmed) ||
+		/^\(.*\)$/s.test(trimmed)
+	) {
+		return trimmed;
+	}
+
+	return quoteLiteral(value);
+}
+
+/**
+ * Build the SQL that defines a column in CREATE TABLE or ALTER TABLE ADD COLUMN
+ */
+function buildColumnDefinition(
+	this: IExecuteFunctions,
+	column: ColumnDefinition,
+	inlinePrimaryKey: boolean,
+	itemIndex: number,
+): string {
+	const name = (column.name || '').trim();
+
+	if (name === '') {
+		throw new NodeOperationError(this.getNode(), 'Column name cannot be empty', { itemIndex });
+	}
+
+	const type = column.type === 'custom' ? (column.customType || '').trim() : column.type || '';
+
+	// The type is not quoted, so only a name with an optional size is accepted
+	if (type !== '' && !/^[A-Za-z_][A-Za-z0-9_ ]*(\(\s*[-+]?\d+\s*(,\s*[-+]?\d+\s*)?\))?$/.test(type)) {
+		throw new NodeOperationError(this.getNode(), `Type "${type}" of column "${name}" is not valid`, {
+			itemIndex,
+			description: 'A type is a name with an optional size, e.g. TEXT, VARCHAR(255) or F32_BLOB(1536)',
+		});
+	}
+
+	let definition = type ? `${quoteIdentifier(name)} ${type}` : quoteIdentifier(name);
+
+	if (column.primaryKey && inlinePrimaryKey) {
+		definition += ' PRIMARY KEY';
+		if (column.autoIncrement) {
+			definition += ' AUTOINCREMENT';
+		}
+	}
+	if (column.notNull) {
+		definition += ' NOT NULL';
+	}
+	if (column.unique) {
+		definition += ' UNIQUE';
+	}
+	if (column.defaultValue !== undefined && column.defaultValue.trim() !== '') {
+		definition += ` DEFAULT ${toDefaultValue(column.defaultValue)}`;
+	}
+
+	const referencesTable = (column.referencesTable || '').trim();
+	if (referencesTable !== '') {
+		const referencesColumn = (column.referencesColumn || '').trim();
+		definition += ` REFERENCES ${quoteIdentifier(referencesTable)}`;
+		if (referencesColumn !== '') {
+			definition += ` (${quoteIdentifier(referencesColumn)})`;
+		}
+		if (column.onDelete && column.onDelete !== 'NO ACTION') {
+			definition += ` ON DELETE ${column.onDelete}`;
+		}
+	}
+
+	return definition;
+}
+
+/**
+ * Convert a value to the affinity of its column before it is bound, so numbers, booleans
+ * and dates entered as text are stored as the column expects
+ */
+function coerceToAffinity(this: IExecuteFunctions, value: unknown, column: string, type: string, itemIndex: number): InValue {
+	if (value === undefined || value === null) {
+		return null;
+	}
+
+	// Dates of expressions are Luxon DateTime objects
+	let converted = value;
+	if (converted instanceof Date) {
+		converted = converted.toISOString();
+	} else if (typeof converted === 'object' && typeof (converted as { toISO?: unknown }).toISO === 'function') {
+		converted = (converted as { toISO: () => string }).toISO();
+	}
+
+	const affinity = getColumnAffinity(type);
+
+	if (affinity === 'INTEGER' || affinity === 'REAL' || affinity === 'NUMERIC') {
+		const notFinite = () =>
+			new NodeOperationError(this.getNode(), `Value "${String(converted)}" of column "${column}" is not a finite number`, {
+				itemIndex,
+				description: `The column is declared as ${type}`,
+			});
+
+		if (typeof converted === 'boolean') {
+			return BigInt(converted ? 1 : 0);
+		}
+
+		if (typeof converted === 'number') {
+			if (!Number.isFinite(converted)) {
+				throw notFinite();
+			}
+			// Whole numbers are bound as integers, like query parameters
+			return affinity !== 'REAL' && Number.isSafeInteger(converted) ? BigInt(converted) : converted;
+		}
+
+		if (typeof converted === 'string') {
+			// SQLite ignores the whitespace around a number, but not hex or other notations
+			const text = converted.replace(/^[ \t\n\f\r]+|[ \t\n\f\r]+$/g, '');
+
+			if (text === '') {
+				return null;
+			}
+			if (/^(true|false)$/i.test(text)) {
+				return BigInt(text.toLowerCase() === 'true' ? 1 : 0);
+			}
+
+			if (affinity !== 'REAL' && /^[+-]?\d+$/.test(text)) {
+				// Parsed exactly, integers beyond 64 bits are stored as REAL as SQLite does
+				const integer = BigInt(text.replace(/^\+/, ''));
+				if (integer >= BigInt('-9223372036854775808') && integer <= BigInt('9223372036854775807')) {
+					return integer;
+				}
+			}
+
+			if (/^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/.test(text)) {
+				const number = Number(text);
+				if (!Number.isFinite(number)) {
+					throw notFinite();
+				}
+				return number;
+			}
+
+			// NUMERIC columns keep text that is not a number, e.g. dates
+			if (affinity !== 'NUMERIC') {
+				throw new NodeOperationError(this.getNode(), `Value "${converted}" of column "${column}" is not a number`, {
+					itemIndex,
+					description: `The column is declared as ${type}`,
+				});
+			}
+			return converted;
+		}
+	} else if (affinity === 'TEXT') {
+		if (typeof converted === 'object' && !(converted instanceof Uint8Array)) {
+			return JSON.stringify(converted);
+		}
+		return String(converted);
+	}
+
+	return toBindValue(converted);
+}
+
+/**
+ * Read the column mapping of the given items: the values set for each column, or the fields of
+ * the items named like a column. Returns the mapped columns in table order and one record per item.
+ */
+function getColumnMapping(
+	this: IExecuteFunctions,
+	tableSchema: TableSchema,
+	itemIndexes: number[],
+): { columns: string[]; records: IDataObject[] } {
+	const items = this.getInputData();
+	const mappedColumns = new Set<string>();
+	const records: IDataObject[] = [];
+
+	for (const index of itemIndexes) {
+		const mapping = this.getNodeParameter('columnMapping', index) as ResourceMapperValue;
+		let values: IDataObject;
+
+		if (mapping.mappingMode === 'autoMapInputData') {
+			// Fields that are not columns of the table are left out
+			values = {};
+			for (const [field, value] of Object.entries(items[index].json)) {
+				if (tableSchema.columns.some(column => column.toLowerCase() === field.toLowerCase())) {
+					values[field] = value;
+				}
+			}
+		} else {
+			const removed = (mapping.schema || []).filter(field => field.removed).map(field => field.id);
+			values = {};
+			for (const [field, value] of Object.entries(mapping.value || {})) {
+				if (!removed.includes(field)) {
+					values[field] = value;
+				}
+			}
+		}
+
+		const record: IDataObject = {};
+		for (const [field, value] of Object.entries(values)) {
+			const column = tableSchema.columns.find(name => name.toLowerCase() === field.toLowerCase());
+
+			if (!column) {
+				throw new NodeOperationError(this.getNode(), `Column "${field}" does not exist in table "${tableSchema.name}"`, {
+					itemIndex: index,
+					description: `Available columns: ${tableSchema.columns.join(', ')}`,
+				});
+			}
+
+			record[column] = coerceToAffinity.call(this, value, column, tableSchema.columnTypes[column], index);
+			mappedColumns.add(column);
+		}
+
+		records.push(record);
+	}
+
+	return {
+		columns: tableSchema.columns.filter(column => mappedColumns.has(column)),
+		records,
+	};
+}
+
+/**
+ * SQLite type of a column for a value of an input item, undefined for null
+ */
+function inferColumnType(value: unknown): string | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	if (typeof value === 'boolean' || typeof value === 'bigint') {
+		return 'INTEGER';
+	}
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? 'INTEGER' : 'REAL';
+	}
+	// Text, dates and JSON of objects and arrays
+	return 'TEXT';
+}
+
+/**
+ * Create the table, or add the columns it is missing, for the fields of the records to insert.
+ * Tables created in this execution always get the columns later items add.
+ * Returns the fields in the order they first appear and the schema changes made.
+ */
+async function applyRecordSchema(
+	this: IExecuteFunctions,
+	client: Client,
+	table: string,
+	records: IDataObject[],
+	addColumns: boolean,
+	createdTables: Set<string>,
+	itemIndex: number,
+): Promise<{ columns: string[]; changes: IDataObject[] }> {
+	const columns: string[] = [];
+	const types: { [column: string]: string | undefined } = {};
+
+	for (const record of records) {
+		for (const [column, value] of Object.entries(record ?? {})) {
+			const type = inferColumnType(value);
+
+			if (!columns.includes(column)) {
+				columns.push(column);
+				types[column] = type;
+			} else if (type !== undefined && types[column] !== type) {
+				// Integers and reals make a REAL column, any other mix a TEXT column
+				const previous = types[column];
+				types[column] =
+					previous === undefined ? type : [previous, type].every(t => t === 'INTEGER' || t === 'REAL') ? 'REAL' : 'TEXT';
+			}
+		}
+	}
+
+	if (columns.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'No fields found to create columns from', { itemIndex });
+	}
+
+	const toDefinition = (column: string) => `${quoteIdentifier(column)} ${types[column] ?? 'TEXT'}`;
+	const changes: IDataObject[] = [];
+
+	try {
+		const existing = await client.execute({
+			sql: "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name = ? COLLATE NOCASE",
+			args: [table],
+		});
+
+		if (existing.rows.length === 0) {
+			const query = `CREATE TABLE ${quoteIdentifier(table)} (${columns.map(toDefinition).join(', ')})`;
+			await client.execute({ sql: query, args: [] });
+			createdTables.add(table.toLowerCase());
+			changes.push({
+				action: 'createTable',
+				table,
+				columns: columns.map(column => ({ name: column, type: types[column] ?? 'TEXT' })),
+				sql: query,
+			});
+		} else if (addColumns || createdTables.has(table.toLowerCase())) {
+			const tableSchema = await getTableSchema.call(this, client, table, [], itemIndex);
+			const missing = columns.filter(
+				column => !tableSchema.columns.some(name => name.toLowerCase() === column.toLowerCase()),
+			);
+
+			for (const column of missing) {
+				const query = `ALTER TABLE ${quoteIdentifier(tableSchema.name)} ADD COLUMN ${toDefinition(column)}`;
+				await client.execute({ sql: query, args: [] });
+				changes.push({ action: 'addColumn', table: tableSchema.name, column, type: types[column] ?? 'TEXT', sql: query });
+			}
+		}
+	} catch (error) {
+		if (error instanceof NodeOperationError) {
+			throw error;
+		}
+		handleDatabaseError(this, error, itemIndex, 'Insert Rows - Schema Change');
+	}
+
+	return { columns, changes };
+}
+
+/**
+ * Describe a table or view: columns, keys, indexes, foreign keys, triggers and its DDL
+ */
+async function describeTableSchema(
+	client: Client,
+	tableSchema: TableSchema,
+	includeRowCount: boolean,
+): Promise<IDataObject> {
+	const master = await client.execute({ sql: 'SELECT sql FROM sqlite_master WHERE name = ?', args: [tableSchema.name] });
+	const tableList = await client.execute({ sql: 'SELECT type, wr, strict FROM pragma_table_list(?)', args: [tableSchema.name] });
+	const columnList = await client.execute({ sql: 'SELECT * FROM pragma_table_info(?) ORDER BY cid', args: [tableSchema.name] });
+	const indexList = await client.execute({ sql: 'SELECT * FROM pragma_index_list(?) ORDER BY seq', args: [tableSchema.name] });
+	const foreignKeyList = await client.execute({
+		sql: 'SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq',
+		args: [tableSchema.name],
+	});
+	const triggerList = await client.execute({
+		sql: "SELECT name, sql FROM sqlite_master WHERE type = 'trigger' AND tbl_name = ? ORDER BY name",
+		args: [tableSchema.name],
+	});
+
+	const tableInfo = tableList.rows[0];
+	const columns = columnList.rows.map(column => ({
+		position: Number(column.cid),
+		name: column.name as string,
+		type: column.type as string,
+		notNull: Number(column.notnull) === 1,
+		defaultValue: column.dflt_value,
+		primaryKey: Number(column.pk) > 0,
+	}));
+
+	const indexes: IDataObject[] = [];
+	for (const index of indexList.rows) {
+		const indexColumns = await client.execute({
+			sql: 'SELECT name FROM pragma_index_info(?) ORDER BY seqno',
+			args: [index.name],
+		});
+		const indexSql = await client.execute({
+			sql: "SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?",
+			args: [index.name],
+		});
+
+		indexes.push({
+			name: index.name as string,
+			unique: Number(index.unique) === 1,
+			// c: CREATE INDEX, u: UNIQUE constraint, pk: PRIMARY KEY constraint
+			origin: ({ c: 'index', u: 'unique', pk: 'primaryKey' } as IDataObject)[index.origin as string] ?? index.origin,
+			partial: Number(index.partial) === 1,
+			// Expressions have no column name
+			columns: indexColumns.rows.map(column => column.name ?? null),
+			sql: indexSql.rows[0]?.sql ?? null,
+		});
+	}
+
+	// Each foreign key has a row per column, numbered by id
+	const foreignKeys: IDataObject[] = [];
+	for (const row of foreignKeyList.rows) {
+		let foreignKey = foreignKeys.find(key => key.id === Number(row.id));
+		if (!foreignKey) {
+			foreignKey = {
+				id: Number(row.id),
+				table: row.table as string,
+				columns: [],
+				referencedColumns: [],
+				onUpdate: row.on_update as string,
+				onDelete: row.on_delete as string,
+			};
+			foreignKeys.push(foreignKey);
+		}
+		(foreignKey.columns as string[]).push(row.from as string);
+		// Without referenced columns the key refers to the primary key of the other table
+		(foreignKey.referencedColumns as Array<string | null>).push((row.to as string | null) ?? null);
+	}
+
+	const description: IDataObject = {
+		table: tableSchema.name,
+		type: (tableInfo?.type as string) ?? tableSchema.type,
+		strict: Number(tableInfo?.strict) === 1,
+		withoutRowid: Number(tableInfo?.wr) === 1,
+		columns,
+		primaryKey: columnList.rows
+			.filter(column => Number(column.pk) > 0)
+			.sort((a, b) => Number(a.pk) - Number(b.pk))
+			.map(column => column.name as string),
+		indexes,
+		foreignKeys: foreignKeys.map(({ id, ...foreignKey }) => foreignKey),
+		triggers: triggerList.rows.map(trigger => ({ name: trigger.name as string, sql: trigger.sql as string })),
+		sql: (master.rows[0]?.sql as string) ?? null,
+	};
+
+	if (includeRowCount) {
+		const count = await client.execute({ sql: `SELECT COUNT(*) AS count FROM ${quoteIdentifier(tableSchema.name)}`, args: [] });
+		description.rowCount = Number(count.rows[0].count);
+	}
+
+	return description;
+}
+
+/**
+ * Check a list of migrations and add the checksum of each script
+ */
+function toMigrations(this: IExecuteFunctions, value: unknown, itemIndex: number): Migration[] {
+	let list = value;
+
+	if (typeof list === 'string') {
+		try {
+			list = JSON.parse(list);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'Migrations must be a JSON array', { itemIndex });
+		}
+	}
+
+	if (!Array.isArray(list)) {
+		throw new NodeOperationError(this.getNode(), 'Migrations must be an array of objects with a name and sql', { itemIndex });
+	}
+
+	const migrations: Migration[] = [];
+
+	for (const entry of list as IDataObject[]) {
+		const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+		const sql = typeof entry?.sql === 'string' ? entry.sql.trim() : '';
+
+		if (name === '' || sql === '') {
+			throw new NodeOperationError(this.getNode(), `Migration ${migrations.length + 1} needs a name and sql`, { itemIndex });
+		}
+
+		if (migrations.some(migration => migration.name === name)) {
+			throw new NodeOperationError(this.getNode(), `Migration name "${name}" is used more than once`, { itemIndex });
+		}
+
+		migrations.push({ name, sql, checksum: createHash('sha256').update(sql).digest('hex') });
+	}
+
+	return migrations;
+}
+
+/**
+ * Read the migrations of a file: a JSON array, a script split by "-- migration: <name>" lines,
+ * or a single script named after the file
+ */
+async function getBinaryMigrations(this: IExecuteFunctions, itemIndex: number): Promise<Migration[]> {
+	const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex, 'data') as string;
+	const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+	const text = (await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName)).toString('utf8');
+
+	if (text.trim().startsWith('[')) {
+		return toMigrations.call(this, text, itemIndex);
+	}
+
+	const markers = [...text.matchAll(/^--\s*migration:\s*(.+?)\s*$/gim)];
+
+	if (markers.length === 0) {
+		return toMigrations.call(this, [{ name: binaryData.fileName || binaryPropertyName, sql: text }], itemIndex);
+	}
+
+	if (text.slice(0, markers[0].index).replace(/--[^\n]*/g, '').trim() !== '') {
+		throw new NodeOperationError(this.getNode(), 'The migrations file has SQL before its first "-- migration:" line', { itemIndex });
+	}
+
+	return toMigrations.call(
+		this,
+		markers.map((marker, index) => ({
+			name: marker[1],
+			sql: text.slice((marker.index ?? 0) + marker[0].length, markers[index + 1]?.index ?? text.length),
+		})),
+		itemIndex,
+	);
+}
+
+/**
+ * Find the statement that made a batch fail.
+ * libSQL does not report it, so the statements are replayed in a transaction
+ * that is always rolled back. Returns -1 if the failure cannot be reproduced.
+ */
+async function findFailingStatement(
+	client: Client,
+	statements: InStatement[],
+	mode: TransactionMode,
+): Promise<number> {
+	let transaction: Transaction;
+	try {
+		transaction = await client.transaction(mode);
+	} catch (error) {
+		return -1;
+	}
+
+	try {
+		for (let index = 0; index < statements.length; index++) {
+			try {
+				await transaction.execute(statements[index]);
+			} catch (error) {
+				return index;
+			}
+		}
+		return -1;
+	} finally {
+		transaction.close();
+	}
+}
+
+/**
+ * Build the ON CONFLICT clause for the upsert operation
+ */
+function buildUpsertClause(this: IExecuteFunctions, columnNames: string[], itemIndex: number): string {
+	const conflictTarget = this.getNodeParameter('conflictTarget', itemIndex) as string;
+	const conflictColumns = (conflictTarget || '')
+		.split(',')
+		.map(column => column.trim())
+		.filter(column => column !== '');
+
+	if (conflictColumns.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'A conflict target must be selected for upsert operations', { itemIndex });
+	}
+
+	const missingColumns = conflictColumns.filter(column => !columnNames.includes(column));
+	if (missingColumns.length > 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Conflict target column(s) ${missingColumns.join(', ')} must be part of the selected columns`,
+			{ itemIndex },
+		);
+	}
+
+	const onConflict = this.getNodeParameter('onConflict', itemIndex, 'update') as string;
+	let updateColumns: string[] = [];
+
+	if (onConflict === 'update') {
+		updateColumns = this.getNodeParameter('updateColumns', itemIndex, []) as string[];
+
+		if (updateColumns.length === 0) {
+			updateColumns = columnNames.filter(column => !conflictColumns.includes(column));
+		}
+
+		const unknownColumns = updateColumns.filter(column => !columnNames.includes(column));
+		if (unknownColumns.length > 0) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Column(s) to overwrite ${unknownColumns.join(', ')} must be part of the selected columns`,
+				{ itemIndex },
+			);
+		}
+	}
+
+	const conflictList = conflictColumns.map(quoteIdentifier).join(', ');
+
+	// Nothing left to overwrite, so an existing row is kept as it is
+	if (updateColumns.length === 0) {
+		return ` ON CONFLICT(${conflictList}) DO NOTHING`;
+	}
+
+	const setClause = updateColumns
+		.map(column => `${quoteIdentifier(column)} = excluded.${quoteIdentifier(column)}`)
+		.join(', ');
+	return ` ON CONFLICT(${conflictList}) DO UPDATE SET ${setClause}`;
+}
+
+/**
+ * Helper function to handle database errors consistently
+ */
+function handleDatabaseError(
+	context: IExecuteFunctions,
+	error: unknown,
+	itemIndex: number,
+	operation: string,
+): never {
+	// Handle libSQL specific errors
+	if (error instanceof LibsqlError) {
+		const errorMessage = `Database error in "${operation}": ${error.message}`;
+		throw new NodeOperationError(context.getNode(), errorMessage, {
+			itemIndex,
+			description: `Error code: ${error.code || 'unknown'}`,
+		});
+	}
+
+	// Handle connection errors
+	if (error instanceof Error && error.message.includes('connection')) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Connection error: ${error.message}. Please check your credentials and database URL.`,
+			{ itemIndex },
+		);
+	}
+
+	// Handle any other errors
+	if (error instanceof Error) {
+		throw new NodeOperationError(context.getNode(), `Error in "${operation}": ${error.message}`, { itemIndex });
+	}
+
+	// Fallback for unknown error types
+	throw new NodeOperationError(context.getNode(), `Unknown error in "${operation}"`, { itemIndex });
+}
+
+export class Turso implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Turso',
+		name: 'turso',
+		icon: 'file:turso.svg',
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["operation"]}}',
+		description: 'Execute operations on Turso database',
+		defaults: {
+			name: 'Turso',
+		},
+		usableAsTool: true,
+		inputs: [NodeConnectionType.Main],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'tursoDb',
+				required: true,
+				testedBy: 'tursoDbConnectionTest',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Execute Query',
+						value: 'executeQuery',
+						description: 'Execute a SQL query',
+						action: 'Execute a SQL query',
+					},
+					{
+						name: 'Execute Batch',
+						value: 'executeBatch',
+						description: 'Execute multiple SQL queries as a batch',
+						action: 'Execute multiple SQL queries as a batch',
+					},
+					{
+						name: 'Insert Rows',
+						value: 'insertRows',
+						description: 'Insert rows into a table',
+						action: 'Insert rows into a table',
+					},
+					{
+						name: 'Upsert Rows',
+						value: 'upsertRows',
+						description: 'Insert rows or update them when they already exist',
+						action: 'Upsert rows in a table',
+					},
+					{
+						name: 'Select Rows',
+						value: 'selectRows',
+						description: 'Select rows from a table',
+						action: 'Select rows from a table',
+					},
+					{
+						name: 'Export',
+						value: 'export',
+						description: 'Write the rows of a table or query to a CSV, JSON Lines or SQL file',
+						action: 'Export rows to a file',
+					},
+					{
+						name: 'Update Rows',
+						value: 'updateRows',
+						description: 'Update rows in a table',
+						action: 'Update rows in a table',
+					},
+					{
+						name: 'Delete Rows',
+						value: 'deleteRows',
+						description: 'Delete rows from a table',
+						action: 'Delete rows from a table',
+					},
+					{
+						name: 'List Tables',
+						value: 'listTables',
+						description: 'List all tables in the database',
+						action: 'List all tables in the database',
+					},
+					{
+						name: 'List Schema Objects',
+						value: 'listSchemaObjects',
+						description: 'List the tables, views, indexes and triggers of the database',
+						action: 'List schema objects',
+					},
+					{
+						name: 'Describe Table',
+						value: 'describeTable',
+						description: 'Get schema information about a table',
+						action: 'Get schema information about a table',
+					},
+					{
+						name: 'Sync Now',
+						value: 'syncNow',
+						description: 'Pull the latest changes from the primary into the embedded replica',
+						action: 'Sync the embedded replica',
+					},
+					{
+						name: 'Sync Status',
+						value: 'syncStatus',
+						description: 'Report the replica settings and when this workflow last synced it',
+						action: 'Get the sync status of the embedded replica',
+					},
+					{
+						name: 'Read Your Writes',
+						value: 'readYourWrites',
+						description: 'Turn read-your-writes on or off for the embedded replica in this execution',
+						action: 'Set read your writes for the embedded replica',
+					},
+					{
+						name: 'Create Vector Index',
+						value: 'createVectorIndex',
+						description: 'Create an index for fast similarity search on a vector column',
+						action: 'Create a vector index',
+					},
+					{
+						name: 'Insert Rows with Embeddings',
+						value: 'insertEmbeddings',
+						description: 'Insert a row with its embedding for each input item',
+						action: 'Insert rows with embeddings',
+					},
+					{
+						name: 'Vector Search',
+						value: 'vectorSearch',
+						description: 'Find the rows whose vectors are most similar to a query vector',
+						action: 'Search rows by vector similarity',
+					},
+					{
+						name: 'Create Full-Text Index',
+						value: 'createFtsIndex',
+						description: 'Create an FTS5 index over columns of a table that is kept in sync by triggers',
+						action: 'Create a full text index',
+					},
+					{
+						name: 'Full-Text Search',
+						value: 'ftsSearch',
+						description: 'Find the rows matching a full-text query, best matches first',
+						action: 'Search rows by full text',
+					},
+					{
+						name: 'Create Table',
+						value: 'createTable',
+						description: 'Create a table from a list of column definitions',
+						action: 'Create a table',
+					},
+					{
+						name: 'Add Column',
+						value: 'addColumn',
+						description: 'Add a column to a table',
+						action: 'Add a column',
+					},
+					{
+						name: 'Rename Column',
+						value: 'renameColumn',
+						description: 'Rename a column of a table',
+						action: 'Rename a column',
+					},
+					{
+						name: 'Drop Column',
+						value: 'dropColumn',
+						description: 'Remove a column and its data from a table',
+						action: 'Drop a column',
+					},
+					{
+						name: 'Create Index',
+						value: 'createIndex',
+						description: 'Create an index on columns of a table',
+						action: 'Create an index',
+					},
+					{
+						name: 'Drop Index',
+						value: 'dropIndex',
+						description: 'Remove an index from a table',
+						action: 'Drop an index',
+					},
+					{
+						name: 'Drop Table',
+						value: 'dropTable',
+						description: 'Remove a table with all its rows',
+						action: 'Drop a table',
+					},
+					{
+						name: 'Run Migrations',
+						value: 'runMigrations',
+						description: 'Apply the migrations that have not been applied yet, in one transaction',
+						action: 'Run migrations',
+					},
+				],
+				default: 'executeQuery',
+			},
+			// Embedded replica parameters
+			{
+				displayName: 'Read Your Writes',
+				name: 'readYourWrites',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['readYourWrites'],
+					},
+				},
+				default: true,
+				description: 'Whether reads on the replica wait until the writes made through it have been synced back from the primary. Applies to the Turso nodes that run after this one in the same execution.',
+			},
+			// Export parameters
+			{
+				displayName: 'Export From',
+				name: 'exportSource',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						operation: ['export'],
+					},
+				},
+				options: [
+					{
+						name: 'Table',
+						value: 'table',
+						description: 'Export every row of a table or view',
+					},
+					{
+						name: 'Query',
+						value: 'query',
+						description: 'Export the result of a SELECT query',
+					},
+				],
+				default: 'table',
+			},
+			// SQL query parameters
+			{
+				displayName: 'Query',
+				name: 'query',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				displayOptions: {
+					show: {
+						operation: ['executeQuery', 'export'],
+					},
+					hide: {
+						exportSource: ['table'],
+					},
+				},
+				default: '',
+				placeholder: 'SELECT * FROM users',
+				description: 'The SQL query to execute',
+				required: true,
+			},
+			{
+				displayName: 'Parameters Input',
+				name: 'parameterMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['executeQuery', 'updateRows', 'deleteRows', 'selectRows', 'export'],
+					},
+					hide: {
+						useWhere: [false],
+						filterMode: ['conditions', 'matchColumns'],
+						filterModeSelect: ['conditions'],
+						exportSource: ['table'],
+					},
+				},
+				options: [
+					{
+						name: 'Using Fields Below',
+						value: 'fields',
+						description: 'Define every parameter with its type and optional name',
+					},
+					{
+						name: 'Using JSON',
+						value: 'json',
+						description: 'Pass a JSON array of positional or a JSON object of named parameters',
+					},
+				],
+				default: 'fields',
+				description: 'How to provide the parameters of the query',
+			},
+			{
+				displayName: 'Parameters (JSON)',
+				name: 'parametersJson',
+				type: 'json',
+				displayOptions: {
+					show: {
+						operation: ['executeQuery', 'updateRows', 'deleteRows', 'selectRows', 'export'],
+						parameterMode: ['json'],
+					},
+					hide: {
+						useWhere: [false],
+						filterMode: ['conditions', 'matchColumns'],
+						filterModeSelect: ['conditions'],
+						exportSource: ['table'],
+					},
+				},
+				default: '[]',
+				placeholder: '[1, "text"] or {"name": "value"}',
+				description: 'A JSON array binds the values by position (?), a JSON object binds them by name (:name, $name or @name)',
+			},
+			// Query parameters
+			{
+				displayName: 'Query Parameters',
+				name: 'queryParams',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['executeQuery', 'export'],
+						parameterMode: ['fields'],
+					},
+					hide: {
+						exportSource: ['table'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Parameter',
+				options: [
+					{
+						name: 'params',
+						displayName: 'Parameter',
+						values: queryParameterFields,
+					},
+				],
+				description: 'Parameters for the SQL query in order of appearance (?)',
+			},
+			// Batch queries
+			{
+				displayName: 'Queries',
+				name: 'queries',
+				placeholder: 'Add Query',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['executeBatch'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						name: 'queryValues',
+						displayName: 'Query',
+						values: [
+							{
+								displayName: 'Query',
+								name: 'query',
+								type: 'string',
+								default: '',
+								description: 'The SQL query to execute',
+								typeOptions: {
+									rows: 2,
+								},
+								required: true,
+							},
+							{
+								displayName: 'Parameters',
+								name: 'parameters',
+								type: 'string',
+								default: '',
+								description: 'Parameters for the SQL query as a JSON array or object, e.g. ["a,b", 2] or {"name": "value"}. Anything else is read as a comma-separated list of text values.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Output Format',
+				name: 'outputFormat',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['executeQuery', 'executeBatch', 'selectRows', 'vectorSearch', 'ftsSearch'],
+					},
+				},
+				options: [
+					{
+						name: 'Columns and Rows',
+						value: 'envelope',
+						description: 'Return one item with the column names and the rows as objects',
+					},
+					{
+						name: 'Compact',
+						value: 'compact',
+						description: 'Return one item with the column names and the rows as arrays of values',
+					},
+					{
+						name: 'One Item per Row',
+						value: 'items',
+						description: 'Return every row as its own item, linked to the input item',
+					},
+				],
+				default: 'envelope',
+				description: 'How to return the rows of the result',
+			},
+			{
+				displayName: 'Transaction Mode',
+				name: 'transactionMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['executeBatch'],
+					},
+				},
+				options: [
+					{
+						name: 'Deferred',
+						value: 'deferred',
+						description: 'Run all queries in one transaction that starts as read and upgrades to write when needed',
+					},
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Run the queries one after another, each query is committed on its own',
+					},
+					{
+						name: 'Read',
+						value: 'read',
+						description: 'Run all queries in one read-only transaction',
+					},
+					{
+						name: 'Write',
+						value: 'write',
+						description: 'Run all queries in one read/write transaction',
+					},
+				],
+				default: 'none',
+				description: 'Whether to run the batch atomically. In a transaction either all queries are committed or none of them.',
+			},
+			// Insert rows
+			{
+				displayName: 'Table',
+				name: 'table',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a table...',
+						typeOptions: {
+							searchListMethod: 'searchTables',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. users',
+					},
+				],
+				displayOptions: {
+					show: {
+						operation: [
+							'insertRows',
+							'upsertRows',
+							'updateRows',
+							'describeTable',
+							'deleteRows',
+							'selectRows',
+							'createVectorIndex',
+							'insertEmbeddings',
+							'vectorSearch',
+							'createFtsIndex',
+							'ftsSearch',
+							'addColumn',
+							'renameColumn',
+							'dropColumn',
+							'createIndex',
+							'dropIndex',
+							'dropTable',
+							'export',
+						],
+					},
+					hide: {
+						exportSource: ['query'],
+					},
+				},
+				required: true,
+				description: 'Table to use. Views can be read with Select Rows, Describe Table and Export.',
+			},
+			{
+				displayName: 'Columns',
+				name: 'columns',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: [
+							'insertRows',
+							'upsertRows',
+							'updateRows',
+							'selectRows',
+							'insertEmbeddings',
+							'createFtsIndex',
+							'createIndex',
+						],
+					},
+					hide: {
+						dataSource: ['mapColumns'],
+						schemaMode: ['create', 'evolve'],
+					},
+				},
+				default: [],
+				required: true,
+				description: 'Columns to include in the operation',
+			},
+			{
+				displayName: 'Data Source',
+				name: 'dataSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows', 'updateRows'],
+					},
+				},
+				options: [
+					{
+						name: 'Input Items',
+						value: 'inputItems',
+						description: 'Use the incoming items as data source',
+					},
+					{
+						name: 'Manual Input',
+						value: 'manualInput',
+						description: 'Enter the data manually',
+					},
+					{
+						name: 'Map Each Column',
+						value: 'mapColumns',
+						description: 'Set the value of each column for every incoming item, or map the fields of the items automatically',
+					},
+				],
+				default: 'inputItems',
+			},
+			{
+				displayName: 'Columns',
+				name: 'columnMapping',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				required: true,
+				typeOptions: {
+					loadOptionsDependsOn: ['table.value', 'operation'],
+					resourceMapper: {
+						resourceMapperMethod: 'getMappingColumns',
+						mode: 'add',
+						fieldWords: {
+							singular: 'column',
+							plural: 'columns',
+						},
+						addAllFields: true,
+						multiKeyMatch: true,
+						supportAutoMap: true,
+					},
+				},
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows', 'updateRows'],
+						dataSource: ['mapColumns'],
+					},
+				},
+			},
+			{
+				displayName: 'Values to Insert',
+				name: 'values',
+				placeholder: 'Add Value',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows', 'updateRows'],
+						dataSource: ['manualInput'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						name: 'valueItems',
+						displayName: 'Values',
+						values: [
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+								description: 'Value to insert',
+							},
+						],
+					},
+				],
+				description: 'Values to insert in the row',
+			},
+			{
+				displayName: 'Item Property',
+				name: 'itemsPath',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows', 'updateRows'],
+						dataSource: ['inputItems'],
+					},
+				},
+				default: 'data',
+				description: 'The name of the property which contains the values for insert/update. Leave blank if the items themselves are the values.',
+			},
+			{
+				displayName: 'Execution Mode',
+				name: 'executionMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows', 'updateRows'],
+						dataSource: ['inputItems', 'mapColumns'],
+					},
+				},
+				options: [
+					{
+						name: 'Run Once for Each Item',
+						value: 'perItem',
+						description: 'Write the data of every input item on its own, each result is linked to its input item',
+					},
+					{
+						name: 'Run Once for All Items',
+						value: 'once',
+						description: 'Write the data of all input items in a single operation',
+					},
+				],
+				default: 'perItem',
+				description: 'Whether to handle the input items one by one or all together',
+			},
+			{
+				displayName: 'Table Schema',
+				name: 'schemaMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['insertRows'],
+						dataSource: ['inputItems'],
+					},
+				},
+				options: [
+					{
+						name: 'Create Table If Missing',
+						value: 'create',
+						description: 'Create the table from the fields of the items when it does not exist, then insert every field. Fields of later items are added as columns to the table created.',
+					},
+					{
+						name: 'Create Table and Add New Columns',
+						value: 'evolve',
+						description: 'Like Create Table If Missing, and add a column for every field the table does not have yet',
+					},
+					{
+						name: 'Use Existing Table',
+						value: 'existing',
+						description: 'Insert the selected columns into an existing table',
+					},
+				],
+				default: 'existing',
+				description: 'Whether to create or extend the table to fit the items. Column types are inferred from the values. Enter the name of a new table with an expression.',
+			},
+			{
+				displayName: 'Insert Mode',
+				name: 'insertMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows'],
+					},
+				},
+				options: [
+					{
+						name: 'Batched Statements',
+						value: 'batch',
+						description: 'Send one statement per row, grouped into batches that are each committed atomically',
+					},
+					{
+						name: 'Multi-Row Statements',
+						value: 'multiRow',
+						description: 'Insert several rows per statement using VALUES (...), (...)',
+					},
+					{
+						name: 'Row by Row',
+						value: 'rowByRow',
+						description: 'Send one statement per row and return the result of each row',
+					},
+				],
+				default: 'rowByRow',
+				description: 'How to send the rows to the database. The bulk modes need far fewer round-trips for large inputs.',
+			},
+			{
+				displayName: 'Chunk Size',
+				name: 'chunkSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows'],
+						insertMode: ['batch', 'multiRow'],
+					},
+				},
+				default: 100,
+				description: 'Number of rows per statement or batch. Multi-row statements are capped so they never bind more than 32766 values.',
+			},
+			{
+				displayName: 'Include Row Results',
+				name: 'includeRowResults',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['insertRows', 'upsertRows'],
+						insertMode: ['batch', 'multiRow'],
+					},
+				},
+				default: false,
+				description: 'Whether to add the result of every statement to the summary. In multi-row mode there is one result per chunk.',
+			},
+			// Upsert rows
+			{
+				displayName: 'Conflict Target Name or ID',
+				name: 'conflictTarget',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getConflictTargets',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['upsertRows'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The primary key or unique index that identifies an existing row. To set it by expression, use a comma-separated list of columns. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'On Conflict',
+				name: 'onConflict',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['upsertRows'],
+					},
+				},
+				options: [
+					{
+						name: 'Update Existing Row',
+						value: 'update',
+						description: 'Overwrite the selected columns of the existing row',
+					},
+					{
+						name: 'Keep Existing Row',
+						value: 'nothing',
+						description: 'Skip the new row and leave the existing one untouched',
+					},
+				],
+				default: 'update',
+				description: 'What to do when a row with the same conflict target already exists',
+			},
+			{
+				displayName: 'Columns to Overwrite Names or IDs',
+				name: 'updateColumns',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['upsertRows'],
+						onConflict: ['update'],
+					},
+				},
+				default: [],
+				description: 'Columns that get the new value when the row already exists, all other columns keep their current value. Leave empty to overwrite every inserted column except the conflict target. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			...getFilterProperties(['updateRows', 'deleteRows'], ''),
+			{
+				displayName: 'Where Clause',
+				name: 'whereClause',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['updateRows', 'deleteRows'],
+						filterMode: ['raw'],
+					},
+				},
+				default: '',
+				placeholder: 'id = ?',
+				description: 'WHERE condition for the operation (without the "WHERE" keyword)',
+				required: true,
+			},
+			{
+				displayName: 'Where Parameters',
+				name: 'whereParams',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['updateRows', 'deleteRows'],
+						filterMode: ['raw'],
+						parameterMode: ['fields'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Parameter',
+				options: [
+					{
+						name: 'params',
+						displayName: 'Parameter',
+						values: queryParameterFields,
+					},
+				],
+				description: 'Parameters for the WHERE clause in order of appearance (?)',
+			},
+			// Add Select All Columns option
+			{
+				displayName: 'Select All Columns',
+				name: 'selectAllColumns',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+					},
+				},
+				default: false,
+				description: 'Whether to select all columns using *',
+			},
+			// Where clause for select
+			{
+				displayName: 'Use Where Clause',
+				name: 'useWhere',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+					},
+				},
+				default: false,
+				description: 'Whether to add a WHERE clause to filter results',
+			},
+			...getFilterProperties(['selectRows'], 'Select'),
+			// Where clause for select with condition
+			{
+				displayName: 'Where Clause',
+				name: 'whereClauseSelect',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+						useWhere: [true],
+						filterModeSelect: ['raw'],
+					},
+				},
+				default: '',
+				placeholder: 'id = ?',
+				description: 'WHERE condition for the select (without the "WHERE" keyword)',
+				required: true,
+			},
+			// Where parameters for select
+			{
+				displayName: 'Where Parameters',
+				name: 'whereParamsSelect',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+						useWhere: [true],
+						filterModeSelect: ['raw'],
+						parameterMode: ['fields'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Parameter',
+				options: [
+					{
+						name: 'params',
+						displayName: 'Parameter',
+						values: queryParameterFields,
+					},
+				],
+				description: 'Parameters for the WHERE clause in order of appearance (?)',
+			},
+			// Order By for Select
+			{
+				displayName: 'Use Order By',
+				name: 'useOrderBy',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+					},
+				},
+				default: false,
+				description: 'Whether to add an ORDER BY clause',
+			},
+			{
+				displayName: 'Order By',
+				name: 'orderBy',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+						useOrderBy: [true],
+					},
+				},
+				default: '',
+				description: 'Column to order results by',
+			},
+			{
+				displayName: 'Order Direction',
+				name: 'orderDirection',
+				type: 'options',
+				options: [
+					{
+						name: 'Ascending (ASC)',
+						value: 'ASC',
+					},
+					{
+						name: 'Descending (DESC)',
+						value: 'DESC',
+					},
+				],
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+						useOrderBy: [true],
+					},
+				},
+				default: 'ASC',
+				description: 'The direction to order results by',
+			},
+			// Limit and Offset for Select
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Page Size',
+				name: 'pageSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+						returnAll: [true],
+					},
+				},
+				default: 1000,
+				description: 'Number of rows fetched per request while reading all results',
+			},
+			{
+				displayName: 'File Format',
+				name: 'exportFormat',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['export'],
+					},
+				},
+				options: [
+					{
+						name: 'CSV',
+						value: 'csv',
+					},
+					{
+						name: 'JSON Lines',
+						value: 'jsonLines',
+						description: 'One JSON object per row and line',
+					},
+					{
+						name: 'SQL',
+						value: 'sql',
+						description: 'One INSERT statement per row',
+					},
+				],
+				default: 'csv',
+			},
+			{
+				displayName: 'Delimiter',
+				name: 'delimiter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['export'],
+						exportFormat: ['csv'],
+					},
+				},
+				default: ',',
+				description: 'Character that separates the fields of a row, e.g. ; or \\t for a tab',
+			},
+			{
+				displayName: 'Header Row',
+				name: 'headerRow',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['export'],
+						exportFormat: ['csv'],
+					},
+				},
+				default: true,
+				description: 'Whether the first row of the file holds the column names',
+			},
+			{
+				displayName: 'Insert Into Table',
+				name: 'insertTable',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['export'],
+						exportFormat: ['sql'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. users',
+				description: 'Table named in the INSERT statements. Defaults to the exported table, or "export" for a query.',
+			},
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['export'],
+					},
+				},
+				default: 'data',
+				description: 'Name of the binary property the file is written to',
+			},
+			{
+				displayName: 'File Name',
+				name: 'fileName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['export'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. users.csv',
+				description: 'Name of the file. Defaults to the name of the table and the extension of the format.',
+			},
+			{
+				displayName: 'Page Size',
+				name: 'pageSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['export'],
+					},
+				},
+				default: 1000,
+				description: 'Number of rows read and written at a time, so the whole result never has to be held at once',
+			},
+			{
+				displayName: 'Use Limit',
+				name: 'useLimit',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+					},
+					hide: {
+						returnAll: [true],
+					},
+				},
+				default: false,
+				description: 'Whether to limit the number of results',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+						useLimit: [true],
+					},
+				},
+				default: 100,
+				description: 'Maximum number of results to return',
+			},
+			{
+				displayName: 'Offset',
+				name: 'offset',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['selectRows'],
+						useLimit: [true],
+					},
+				},
+				default: 0,
+				description: 'Number of results to skip',
+			},
+			// Vector search parameters
+			{
+				displayName: 'Vector Column Name or ID',
+				name: 'vectorColumn',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['createVectorIndex', 'insertEmbeddings', 'vectorSearch'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Column of a vector type such as F32_BLOB(1536). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Index Name',
+				name: 'indexName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['createVectorIndex'],
+					},
+				},
+				default: '',
+				placeholder: 'documents_embedding_idx',
+				description: 'Name of the new index. Leave empty to name it after the table and column.',
+			},
+			{
+				displayName: 'Distance Metric',
+				name: 'metric',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['createVectorIndex', 'vectorSearch'],
+					},
+				},
+				options: [
+					{
+						name: 'Cosine',
+						value: 'cosine',
+					},
+					{
+						name: 'Euclidean (L2)',
+						value: 'l2',
+					},
+				],
+				default: 'cosine',
+				description: 'How the distance between two vectors is measured',
+			},
+			{
+				displayName: 'Max Neighbors',
+				name: 'maxNeighbors',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['createVectorIndex'],
+					},
+				},
+				default: 0,
+				description: 'Neighbors kept per row in the index, fewer make a smaller but less accurate index. Use 0 for the libSQL default.',
+			},
+			{
+				displayName: 'Embedding Field',
+				name: 'embeddingField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['insertEmbeddings'],
+					},
+				},
+				default: 'embedding',
+				description: 'Field of the input item that holds the embedding as an array of numbers. The selected columns are filled from the fields of the same name.',
+			},
+			{
+				displayName: 'Query Vector Field',
+				name: 'queryVectorField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch'],
+					},
+				},
+				default: 'embedding',
+				description: 'Field of the input item that holds the query vector as an array of numbers',
+			},
+			{
+				displayName: 'Search Method',
+				name: 'searchMethod',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch'],
+					},
+				},
+				options: [
+					{
+						name: 'Exact',
+						value: 'exact',
+						description: 'Compare the query vector with every row, exact but slow on large tables',
+					},
+					{
+						name: 'Vector Index',
+						value: 'index',
+						description: 'Look up the nearest rows in a vector index, fast but approximate',
+					},
+				],
+				default: 'exact',
+			},
+			{
+				displayName: 'Vector Index Name or ID',
+				name: 'vectorIndex',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getVectorIndexes',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch'],
+						searchMethod: ['index'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Vector index to search. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Top K',
+				name: 'topK',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch'],
+					},
+				},
+				default: 5,
+				description: 'Number of most similar rows to return',
+			},
+			{
+				displayName: 'Include Vector',
+				name: 'includeVector',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch'],
+					},
+				},
+				default: false,
+				description: 'Whether to return the vector column with the rows. It is left out by default as it holds binary data.',
+			},
+			...getConditionProperties({ operation: ['vectorSearch'] }, 'Search'),
+			// Full-text search parameters
+			{
+				displayName: 'Index Table Name',
+				name: 'ftsTableName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['createFtsIndex'],
+					},
+				},
+				default: '',
+				placeholder: 'posts_fts',
+				description: 'Name of the FTS5 table that holds the index. Leave empty to name it after the table with the suffix _fts.',
+			},
+			{
+				displayName: 'Tokenizer',
+				name: 'tokenizer',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['createFtsIndex'],
+					},
+				},
+				options: [
+					{
+						name: 'ASCII',
+						value: 'ascii',
+						description: 'Split on non-ASCII characters',
+					},
+					{
+						name: 'Porter Stemming',
+						value: 'porter unicode61',
+						description: 'Match different forms of English words, e.g. "running" finds "run"',
+					},
+					{
+						name: 'Trigram',
+						value: 'trigram',
+						description: 'Match any substring of at least three characters',
+					},
+					{
+						name: 'Unicode',
+						value: 'unicode61',
+						description: 'Split words on Unicode spaces and punctuation and ignore case and diacritics',
+					},
+				],
+				default: 'unicode61',
+				description: 'How the text is split into searchable tokens',
+			},
+			{
+				displayName: 'Full-Text Index Name or ID',
+				name: 'ftsIndex',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getFtsIndexes',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'FTS5 index of the table to search. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Match Expression',
+				name: 'matchExpression',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+					},
+				},
+				default: '',
+				placeholder: 'sqlite AND (search OR "full text")',
+				description: 'FTS5 query to match, with support for AND, OR, NOT, "phrases", prefix* and column: filters',
+				required: true,
+			},
+			{
+				displayName: 'Max Results',
+				name: 'maxResults',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+					},
+				},
+				default: 50,
+				description: 'Maximum number of rows to return',
+			},
+			{
+				displayName: 'Add Matched Text',
+				name: 'matchedText',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+					},
+				},
+				options: [
+					{
+						name: 'Highlight',
+						value: 'highlight',
+						description: 'Add the whole text of a column with the matches marked',
+					},
+					{
+						name: 'None',
+						value: 'none',
+					},
+					{
+						name: 'Snippet',
+						value: 'snippet',
+						description: 'Add a short extract of a column around the matches, with the matches marked',
+					},
+				],
+				default: 'none',
+				description: 'Whether to add the matching text of a column to each row',
+			},
+			{
+				displayName: 'Text Column Name or ID',
+				name: 'matchedTextColumn',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+						matchedText: ['highlight', 'snippet'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Indexed column to take the text from. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Mark Start',
+				name: 'markStart',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+						matchedText: ['highlight', 'snippet'],
+					},
+				},
+				default: '<b>',
+				description: 'Text inserted before each match',
+			},
+			{
+				displayName: 'Mark End',
+				name: 'markEnd',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+						matchedText: ['highlight', 'snippet'],
+					},
+				},
+				default: '</b>',
+				description: 'Text inserted after each match',
+			},
+			{
+				displayName: 'Snippet Length',
+				name: 'snippetTokens',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 64,
+				},
+				displayOptions: {
+					show: {
+						operation: ['ftsSearch'],
+						matchedText: ['snippet'],
+					},
+				},
+				default: 10,
+				description: 'Maximum number of tokens in a snippet',
+			},
+			// Schema management parameters
+			{
+				displayName: 'Object Types',
+				name: 'objectTypes',
+				type: 'multiOptions',
+				displayOptions: {
+					show: {
+						operation: ['listSchemaObjects'],
+					},
+				},
+				options: [
+					{
+						name: 'Index',
+						value: 'index',
+					},
+					{
+						name: 'Table',
+						value: 'table',
+					},
+					{
+						name: 'Trigger',
+						value: 'trigger',
+					},
+					{
+						name: 'View',
+						value: 'view',
+					},
+					{
+						name: 'Virtual Table',
+						value: 'virtual',
+						description: 'Tables of a module such as FTS5',
+					},
+				],
+				default: [],
+				description: 'Types of objects to list. Leave empty to list all of them.',
+			},
+			{
+				displayName: 'Include Row Count',
+				name: 'includeRowCount',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['describeTable'],
+					},
+				},
+				default: false,
+				description: 'Whether to count the rows of the table. Counting reads the whole table.',
+			},
+			{
+				displayName: 'Table Name',
+				name: 'newTableName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['createTable'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Name of the table to create',
+			},
+			{
+				displayName: 'Columns',
+				name: 'tableColumns',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['createTable'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Column',
+				options: [
+					{
+						name: 'column',
+						displayName: 'Column',
+						values: columnDefinitionFields,
+					},
+				],
+			},
+			{
+				displayName: 'Column',
+				name: 'newColumn',
+				type: 'fixedCollection',
+				displayOptions: {
+					show: {
+						operation: ['addColumn'],
+					},
+				},
+				default: {},
+				placeholder: 'Define Column',
+				options: [
+					{
+						name: 'column',
+						displayName: 'Column',
+						// SQLite cannot add a primary key or unique column to an existing table
+						values: columnDefinitionFields.filter(
+							field => !['primaryKey', 'autoIncrement', 'unique'].includes(field.name),
+						),
+					},
+				],
+			},
+			{
+				displayName: 'Column Name or ID',
+				name: 'column',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['renameColumn', 'dropColumn'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Column to change. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'New Column Name',
+				name: 'newColumnName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['renameColumn'],
+					},
+				},
+				default: '',
+				required: true,
+			},
+			{
+				displayName: 'Index Name',
+				name: 'tableIndexName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['createIndex'],
+					},
+				},
+				default: '',
+				description: 'Name of the index. Leave empty to name it after the table and columns.',
+			},
+			{
+				displayName: 'Unique',
+				name: 'uniqueIndex',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['createIndex'],
+					},
+				},
+				default: false,
+				description: 'Whether two rows may not have the same values in the indexed columns',
+			},
+			{
+				displayName: 'Index Name or ID',
+				name: 'index',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getIndexes',
+					loadOptionsDependsOn: ['table.value'],
+				},
+				displayOptions: {
+					show: {
+						operation: ['dropIndex'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Index to remove. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Strict',
+				name: 'strictTable',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['createTable'],
+					},
+				},
+				default: false,
+				description: 'Whether to create a STRICT table, which rejects values that do not match the type of their column',
+			},
+			{
+				displayName: 'Without Rowid',
+				name: 'withoutRowid',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['createTable'],
+					},
+				},
+				default: false,
+				description: 'Whether to create the table WITHOUT ROWID, which stores rows by their primary key',
+			},
+			{
+				displayName: 'Only If Missing',
+				name: 'ifNotExists',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['createTable', 'createIndex'],
+					},
+				},
+				default: false,
+				description: 'Whether to do nothing instead of failing when the table or index already exists',
+			},
+			{
+				displayName: 'Confirm Drop',
+				name: 'confirmDrop',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['dropTable'],
+					},
+				},
+				default: false,
+				description: 'Whether to really drop the table. All its rows, indexes and triggers are removed and cannot be restored.',
+			},
+			// Migration parameters
+			{
+				displayName: 'Migrations Source',
+				name: 'migrationSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['runMigrations'],
+					},
+				},
+				options: [
+					{
+						name: 'Binary File',
+						value: 'binary',
+						description: 'Read the migrations from a file of the input item',
+					},
+					{
+						name: 'Defined Below',
+						value: 'parameters',
+						description: 'Enter the migrations in the node',
+					},
+					{
+						name: 'Input Item Field',
+						value: 'field',
+						description: 'Read the migrations from a field of the input item',
+					},
+				],
+				default: 'parameters',
+				description: 'Where the migrations come from',
+			},
+			{
+				displayName: 'Migrations',
+				name: 'migrations',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				displayOptions: {
+					show: {
+						operation: ['runMigrations'],
+						migrationSource: ['parameters'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Migration',
+				description: 'Migrations in the order they are applied',
+				options: [
+					{
+						name: 'migrationValues',
+						displayName: 'Migration',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: '001_create_users',
+								description: 'Unique name the migration is recorded under',
+							},
+							{
+								displayName: 'SQL',
+								name: 'sql',
+								type: 'string',
+								typeOptions: {
+									rows: 6,
+								},
+								default: '',
+								description: 'Statements of the migration, separated by semicolons',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Migrations Field',
+				name: 'migrationsField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['runMigrations'],
+						migrationSource: ['field'],
+					},
+				},
+				default: 'migrations',
+				description: 'Field of the input item holding an array of migrations, each an object with a name and sql',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['runMigrations'],
+						migrationSource: ['binary'],
+					},
+				},
+				default: 'data',
+				description: 'Binary field holding a JSON array of migrations, or SQL with a "-- migration: &lt;name&gt;" line before each migration. A file without such lines is one migration named after the file.',
+			},
+			{
+				displayName: 'Tracking Table',
+				name: 'migrationsTable',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['runMigrations'],
+					},
+				},
+				default: 'schema_migrations',
+				description: 'Table that records the applied migrations with their checksums. It is created when missing.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['runMigrations'],
+					},
+				},
+				default: false,
+				description: 'Whether to only list the migrations that would be applied, without changing the database',
+			},
+		],
+	};
+
+	methods = {
+		listSearch: {
+			searchTables,
+		},
+		resourceMapping: {
+			getMappingColumns,
+		},
+		loadOptions: {
+			getColumns,
+			getConflictTargets,
+			getVectorIndexes,
+			getFtsIndexes,
+			getIndexes,
+		},
+		credentialTest: {
+			tursoDbConnectionTest,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+		const operation = this.getNodeParameter('operation', 0) as string;
+
+		let responseData;
+		// Tables created from the items, extended by the items that follow
+		const createdTables = new Set<string>();
+
+		// Create a db client once for all items
+		let client;
+		try {
+			client = await connectToDatabase.call(this);
+		} catch (error) {
+			// Handle connection setup errors
+			if (error instanceof NodeOperationError) {
+				throw error;
+			}
+			throw new NodeOperationError(
+				this.getNode(),
+				`Error connecting to Turso database: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			);
+		}
+
+		try {
+			for (let i = 0; i < items.length; i++) {
+				let itemData: IPairedItemData | IPairedItemData[] = { item: i };
+				let outputItems: IDataObject[] | undefined;
+				let outputBinary: IBinaryKeyData | undefined;
+
+				try {
+					// Handle database operations with libsql client
+					if (operation === 'executeQuery') {
+						const query = this.getNodeParameter('query', i) as string;
+
+						if (!query || query.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'SQL query cannot be empty', { itemIndex: i });
+						}
+
+						const args = await getQueryArgs.call(this, 'queryParams', i);
+
+						try {
+							const result = await client.execute({
+								sql: query,
+								args,
+							});
+
+							responseData = toProcessedResult(result);
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Execute Query');
+						}
+
+						const outputFormat = this.getNodeParameter('outputFormat', i, 'envelope') as string;
+
+						if (outputFormat === 'items') {
+							outputItems = rowsToJson(responseData);
+						} else if (outputFormat === 'compact') {
+							responseData = toCompactResult(responseData);
+						}
+
+					} else if (operation === 'executeBatch') {
+						const queries = this.getNodeParameter('queries.queryValues', i, []) as Array<{
+							query: string;
+							parameters: string;
+						}>;
+
+						if (queries.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'At least one query is required for batch execution', { itemIndex: i });
+						}
+
+						const transactionMode = this.getNodeParameter('transactionMode', i, 'none') as
+							| TransactionMode
+							| 'none';
+
+						const statements: InStatement[] = [];
+
+						for (const queryItem of queries) {
+							const { query, parameters } = queryItem;
+
+							if (!query || query.trim() === '') {
+								throw new NodeOperationError(this.getNode(), 'SQL query cannot be empty', { itemIndex: i });
+							}
+
+							const args = parseBatchParameters.call(this, parameters, i);
+
+							statements.push({
+								sql: query,
+								args,
+							});
+						}
+
+						const results: ProcessedResult[] = [];
+
+						if (transactionMode === 'none') {
+							for (let index = 0; index < statements.length; index++) {
+								try {
+									const result = await client.execute(statements[index]);
+									results.push(toProcessedResult(result));
+								} catch (error) {
+									handleDatabaseError(this, error, i, `Execute Batch - Query: ${queries[index].query}`);
+								}
+							}
+						} else {
+							try {
+								const batchResults = await client.batch(statements, transactionMode);
+								results.push(...batchResults.map(toProcessedResult));
+							} catch (error) {
+								// The whole batch was rolled back, report which statement caused it
+								const failedIndex = await findFailingStatement(client, statements, transactionMode);
+								const operationName =
+									failedIndex === -1
+										? 'Execute Batch (rolled back)'
+										: `Execute Batch (rolled back) - Query ${failedIndex + 1}: ${queries[failedIndex].query}`;
+								handleDatabaseError(this, error, i, operationName);
+							}
+						}
+
+						const outputFormat = this.getNodeParameter('outputFormat', i, 'envelope') as string;
+
+						if (outputFormat === 'items') {
+							// Statements without result columns are represented by their write result
+							outputItems = results.flatMap(result =>
+								result.columns.length > 0
+									? rowsToJson(result)
+									: [{ rowsAffected: result.rowsAffected, lastInsertRowid: result.lastInsertRowid } as IDataObject],
+							);
+						}
+
+						responseData = outputFormat === 'compact' ? results.map(toCompactResult) : results;
+					} else if (operation === 'insertRows' || operation === 'upsertRows') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
+
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
+
+						const dataSource = this.getNodeParameter('dataSource', i) as string;
+						const schemaMode =
+							operation === 'insertRows' && dataSource === 'inputItems'
+								? (this.getNodeParameter('schemaMode', i, 'existing') as string)
+								: 'existing';
+						// With a schema mode or a column mapping the columns are the fields of the items
+						const pickColumns = schemaMode === 'existing' && dataSource !== 'mapColumns';
+						const selectedColumns = pickColumns ? (this.getNodeParameter('columns', i) as string[]) : [];
+
+						if (pickColumns && (!selectedColumns || selectedColumns.length === 0)) {
+							throw new NodeOperationError(this.getNode(), 'At least one column must be selected', { itemIndex: i });
+						}
+
+						const operationName = operation === 'upsertRows' ? 'Upsert Rows' : 'Insert Rows';
+
+						let columnNames = selectedColumns;
+						let schemaChanges: IDataObject[] | undefined;
+						let rows: any[][] = [];
+
+						if (dataSource === 'manualInput') {
+							const valueItems = this.getNodeParameter('values.valueItems', i, []) as Array<{ value: string }>;
+
+							if (valueItems.length === 0) {
+								throw new NodeOperationError(this.getNode(), 'No values provided for insert operation', { itemIndex: i });
+							}
+
+							// Group values by rows
+							const valuesPerRow = columnNames.length;
+							const values = valueItems.map(item => item.value);
+
+							if (values.length % valuesPerRow !== 0) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Values count (${values.length}) is not a multiple of columns count (${valuesPerRow})`,
+									{ itemIndex: i },
+								);
+							}
+
+							for (let j = 0; j < values.length; j += valuesPerRow) {
+								const row = values.slice(j, j + valuesPerRow);
+								rows.push(row);
+							}
+						} else { // inputItems or mapColumns
+							const executionMode = this.getNodeParameter('executionMode', i, 'perItem') as string;
+							let sourceIndexes = [i];
+
+							if (executionMode === 'once') {
+								// All items are handled together with the first one
+								if (i > 0) {
+									continue;
+								}
+								sourceIndexes = items.map((_item, index) => index);
+								itemData = items.map((_item, index) => ({ item: index }));
+							}
+
+							const records: IDataObject[] = [];
+
+							if (dataSource === 'mapColumns') {
+								const tableSchema = await getTableSchema.call(this, client, table, [], i);
+								const mapping = getColumnMapping.call(this, tableSchema, sourceIndexes);
+								columnNames = mapping.columns;
+								records.push(...mapping.records);
+							} else {
+								const itemsPath = this.getNodeParameter('itemsPath', i, 'data') as string;
+
+								// Get data from incoming items
+								for (const item of sourceIndexes.map(index => items[index])) {
+									let rowData: any;
+
+									if (itemsPath) {
+										rowData = item.json[itemsPath];
+
+										if (rowData === undefined) {
+											throw new NodeOperationError(
+												this.getNode(),
+												`Item path '${itemsPath}' not found in input data`,
+												{ itemIndex: i },
+											);
+										}
+									} else {
+										rowData = item.json;
+									}
+
+									// An array holds one object per row, an object is a single row
+									if (Array.isArray(rowData)) {
+										records.push(...rowData);
+									} else if (typeof rowData === 'object' && rowData !== null) {
+										records.push(rowData);
+									}
+								}
+							}
+
+							if (records.length === 0 || (dataSource === 'mapColumns' && columnNames.length === 0)) {
+								throw new NodeOperationError(this.getNode(), 'No data found to insert', { itemIndex: i });
+							}
+
+							if (dataSource === 'mapColumns') {
+								// Columns an item has no value for are written as NULL
+								rows = records.map(record => columnNames.map(name => (record[name] as InValue) ?? null));
+							} else if (schemaMode !== 'existing') {
+								const recordSchema = await applyRecordSchema.call(
+									this,
+									client,
+									table,
+									records,
+									schemaMode === 'evolve',
+									createdTables,
+									i,
+								);
+								columnNames = recordSchema.columns;
+								schemaChanges = recordSchema.changes;
+								// Objects and arrays are stored as JSON in the TEXT columns created for them
+								rows = records.map(record => columnNames.map(name => toBindValue(record?.[name])));
+							} else {
+								// Extract the values in the order of the columns
+								rows = records.map(record => columnNames.map(name => record[name]));
+							}
+						}
+
+						const tableSchema = await getTableSchema.call(this, client, table, columnNames, i);
+						const placeholders = `(${columnNames.map(() => '?').join(', ')})`;
+						const insertInto = `INSERT INTO ${quoteIdentifier(tableSchema.name)} (${columnNames.map(quoteIdentifier).join(', ')}) VALUES `;
+						const conflictClause = operation === 'upsertRows' ? buildUpsertClause.call(this, columnNames, i) : '';
+
+						const insertMode = this.getNodeParameter('insertMode', i, 'rowByRow') as string;
+
+						if (insertMode === 'rowByRow') {
+							// Execute insert queries
+							const results: ProcessedResult[] = [];
+							const query = insertInto + placeholders + conflictClause;
+
+							for (const row of rows) {
+								try {
+									const result = await client.execute({
+										sql: query,
+										args: row,
+									});
+
+									results.push({
+										rowsAffected: result.rowsAffected,
+										lastInsertRowid: result.lastInsertRowid,
+									} as ProcessedResult);
+								} catch (error) {
+									handleDatabaseError(this, error, i, operationName);
+								}
+							}
+
+							responseData = schemaChanges ? { results, schemaChanges } : results;
+						} else {
+							let chunkSize = this.getNodeParameter('chunkSize', i, 100) as number;
+							const includeRowResults = this.getNodeParameter('includeRowResults', i, false) as boolean;
+
+							if (chunkSize <= 0) {
+								throw new NodeOperationError(this.getNode(), 'Chunk size must be greater than 0', { itemIndex: i });
+							}
+
+							// A multi-row statement binds every value of the chunk, keep it under SQLite's limit
+							if (insertMode === 'multiRow') {
+								chunkSize = Math.min(chunkSize, Math.floor(MAX_BOUND_PARAMETERS / columnNames.length));
+							}
+
+							const summary: BulkInsertSummary = {
+								chunks: 0,
+							};
+							const results: ProcessedResult[] = [];
+							let rowsAffected = 0;
+
+							for (let start = 0; start < rows.length; start += chunkSize) {
+								const chunk = rows.slice(start, start + chunkSize);
+								let chunkResults: ResultSet[] = [];
+
+								try {
+									if (insertMode === 'multiRow') {
+										const result = await client.execute({
+											sql: insertInto + chunk.map(() => placeholders).join(', ') + conflictClause,
+											args: chunk.flat(),
+										});
+										chunkResults = [result];
+									} else {
+										chunkResults = await client.batch(
+											chunk.map(row => ({ sql: insertInto + placeholders + conflictClause, args: row })),
+											'write',
+										);
+									}
+								} catch (error) {
+									handleDatabaseError(
+										this,
+										error,
+										i,
+										`${operationName} - Chunk ${summary.chunks + 1} (rows ${start + 1} to ${start + chunk.length})`,
+									);
+								}
+
+								summary.chunks++;
+
+								for (const result of chunkResults) {
+									rowsAffected += result.rowsAffected;
+
+									// An upsert that updates a row leaves the last insert rowid unchanged, and the
+									// rows of a multi-row statement only get consecutive rowids when none is given,
+									// so the first rowid is only known for single-row inserts
+									const lastRowid = Number(result.lastInsertRowid ?? 0);
+									if (operation === 'insertRows' && result.rowsAffected > 0 && lastRowid > 0) {
+										if (summary.firstInsertRowid === undefined && insertMode !== 'multiRow') {
+											summary.firstInsertRowid = lastRowid;
+										}
+										summary.lastInsertRowid = lastRowid;
+									}
+
+									if (includeRowResults) {
+										results.push({
+											rowsAffected: result.rowsAffected,
+											lastInsertRowid: result.lastInsertRowid,
+										} as ProcessedResult);
+									}
+								}
+							}
+
+							// Updated rows of an upsert are counted as well
+							if (operation === 'upsertRows') {
+								summary.rowsAffected = rowsAffected;
+							} else {
+								summary.rowsInserted = rowsAffected;
+							}
+
+							if (includeRowResults) {
+								summary.results = results;
+							}
+
+							if (schemaChanges) {
+								summary.schemaChanges = schemaChanges;
+							}
+
+							responseData = summary;
+						}
+					} else if (operation === 'updateRows') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
+
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
+
+						const dataSource = this.getNodeParameter('dataSource', i) as string;
+						let selectedColumns: string[];
+						let mappedRecords: IDataObject[] = [];
+
+						if (dataSource === 'mapColumns') {
+							const executionMode = this.getNodeParameter('executionMode', i, 'perItem') as string;
+							let sourceIndexes = [i];
+
+							if (executionMode === 'once') {
+								// All items are handled together with the first one
+								if (i > 0) {
+									continue;
+								}
+								sourceIndexes = items.map((_item, index) => index);
+								itemData = items.map((_item, index) => ({ item: index }));
+							}
+
+							// The mapped columns are the ones to update
+							const mapping = getColumnMapping.call(this, await getTableSchema.call(this, client, table, [], i), sourceIndexes);
+							selectedColumns = mapping.columns;
+							mappedRecords = mapping.records;
+						} else {
+							selectedColumns = this.getNodeParameter('columns', i) as string[];
+						}
+
+						if (!selectedColumns || selectedColumns.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'At least one column must be selected', { itemIndex: i });
+						}
+
+						const matchColumns = getMatchColumns.call(this, i);
+						const { clause: whereClause, args: whereArgs, columns: filterColumns } =
+							matchColumns.length > 0 ? buildMatchFilter(matchColumns) : await getWhereFilter.call(this, '', i);
+
+						if (!whereClause) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'WHERE clause is required for update operations for safety',
+								{ itemIndex: i },
+							);
+						}
+
+						const tableSchema = await getTableSchema.call(this, client, table, [...selectedColumns, ...filterColumns], i);
+
+						// Key columns are read from the row data along with the new values
+						// and are not overwritten themselves
+						const setColumns = selectedColumns.filter(column => !matchColumns.includes(column));
+						const columnNames =
+							dataSource === 'manualInput'
+								? selectedColumns
+								: [...selectedColumns, ...matchColumns.filter(column => !selectedColumns.includes(column))];
+
+						if (setColumns.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'At least one column besides the columns to match on must be selected', { itemIndex: i });
+						}
+
+						const missingKeyColumns = matchColumns.filter(column => !columnNames.includes(column));
+						if (missingKeyColumns.length > 0) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Column(s) to match on ${missingKeyColumns.join(', ')} must be part of the selected columns when using manual input`,
+								{ itemIndex: i },
+							);
+						}
+
+						// Positional and named arguments cannot be mixed, so with named where
+						// parameters the new values are bound by name as well
+						const namedWhereArgs = !Array.isArray(whereArgs);
+						const setClause = setColumns
+							.map((col, index) => `${quoteIdentifier(col)} = ${namedWhereArgs ? `:__set_${index}` : '?'}`)
+							.join(', ');
+
+						let rows: any[][] = [];
+
+						if (dataSource === 'manualInput') {
+							const valueItems = this.getNodeParameter('values.valueItems', i, []) as Array<{ value: string }>;
+
+							if (valueItems.length === 0) {
+								throw new NodeOperationError(this.getNode(), 'No values provided for update operation', { itemIndex: i });
+							}
+
+							// Group values by rows
+							const valuesPerRow = columnNames.length;
+							const values = valueItems.map(item => item.value);
+
+							if (values.length % valuesPerRow !== 0) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Values count (${values.length}) is not a multiple of columns count (${valuesPerRow})`,
+									{ itemIndex: i },
+								);
+							}
+
+							for (let j = 0; j < values.length; j += valuesPerRow) {
+								const row = values.slice(j, j + valuesPerRow);
+								rows.push(row);
+							}
+						} else if (dataSource === 'mapColumns') {
+							// Values of unmapped columns are set to NULL, unmapped keys are reported below
+							rows = mappedRecords.map(record =>
+								columnNames.map(name => (matchColumns.includes(name) ? record[name] : (record[name] ?? null))),
+							);
+						} else { // inputItems
+							const itemsPath = this.getNodeParameter('itemsPath', i, 'data') as string;
+							const executionMode = this.getNodeParameter('executionMode', i, 'perItem') as string;
+							let sourceItems = [items[i]];
+
+							if (executionMode === 'once') {
+								// All items are handled together with the first one
+								if (i > 0) {
+									continue;
+								}
+								sourceItems = items;
+								itemData = items.map((_item, index) => ({ item: index }));
+							}
+
+							// Get data from incoming items
+							for (const item of sourceItems) {
+								let rowData: any;
+
+								if (itemsPath) {
+									rowData = item.json[itemsPath];
+
+									if (rowData === undefined) {
+										throw new NodeOperationError(
+											this.getNode(),
+											`Item path '${itemsPath}' not found in input data`,
+											{ itemIndex: i },
+										);
+									}
+								} else {
+									rowData = item.json;
+								}
+
+								// If it's an array of objects, extract values in the right order
+								if (Array.isArray(rowData)) {
+									for (const entry of rowData) {
+										const row = columnNames.map(name => entry[name]);
+										rows.push(row);
+									}
+								} else if (typeof rowData === 'object' && rowData !== null) {
+									// If it's an object, extract values in the right order
+									const row = columnNames.map(name => rowData[name]);
+									rows.push(row);
+								}
+							}
+
+							if (rows.length === 0) {
+								throw new NodeOperationError(this.getNode(), 'No data found to update', { itemIndex: i });
+							}
+						}
+
+						// Execute update queries
+						const results: ProcessedResult[] = [];
+						const unmatchedKeys: IDataObject[] = [];
+
+						for (const row of rows) {
+							const query = `UPDATE ${quoteIdentifier(tableSchema.name)} SET ${setClause} WHERE ${whereClause}`;
+							const setValues = setColumns.map(column => row[columnNames.indexOf(column)]);
+							const keyValues = matchColumns.map(column => row[columnNames.indexOf(column)]);
+
+							if (keyValues.some(value => value === undefined)) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Input data is missing a value for the column(s) to match on: ${matchColumns.join(', ')}`,
+									{ itemIndex: i },
+								);
+							}
+
+							// Combine row values with where args
+							let args: InArgs;
+							if (Array.isArray(whereArgs)) {
+								args = [...setValues, ...whereArgs, ...keyValues];
+							} else {
+								const namedArgs: Record<string, InValue> = { ...whereArgs };
+								setValues.forEach((value, index) => {
+									namedArgs[`__set_${index}`] = value;
+								});
+								args = namedArgs;
+							}
+
+							try {
+								const result = await client.execute({
+									sql: query,
+									args,
+								});
+
+								results.push({
+									rowsAffected: result.rowsAffected,
+								} as ProcessedResult);
+
+								if (matchColumns.length > 0 && result.rowsAffected === 0) {
+									unmatchedKeys.push(toKeyObject(matchColumns, keyValues));
+								}
+							} catch (error) {
+								handleDatabaseError(this, error, i, 'Update Rows');
+							}
+						}
+
+						responseData =
+							matchColumns.length > 0
+								? {
+										matched: results.length - unmatchedKeys.length,
+										unmatched: unmatchedKeys.length,
+										unmatchedKeys,
+										results,
+									}
+								: results;
+					} else if (operation === 'deleteRows') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
+
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
+
+						const matchColumns = getMatchColumns.call(this, i);
+						const { clause: whereClause, args: whereArgs, columns: filterColumns } =
+							matchColumns.length > 0 ? buildMatchFilter(matchColumns) : await getWhereFilter.call(this, '', i);
+
+						if (!whereClause) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'WHERE clause is required for delete operations for safety',
+								{ itemIndex: i },
+							);
+						}
+
+						const tableSchema = await getTableSchema.call(this, client, table, filterColumns, i);
+
+						const query = `DELETE FROM ${quoteIdentifier(tableSchema.name)} WHERE ${whereClause}`;
+
+						// The key values are taken from the input item
+						const keyValues = matchColumns.map(column => items[i].json[column]);
+
+						if (keyValues.some(value => value === undefined)) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Input item is missing a value for the column(s) to match on: ${matchColumns.join(', ')}`,
+								{ itemIndex: i },
+							);
+						}
+
+						try {
+							const result = await client.execute({
+								sql: query,
+								args: matchColumns.length > 0 ? keyValues.map(toBindValue) : whereArgs,
+							});
+
+							responseData = {
+								rowsAffected: result.rowsAffected,
+							};
+
+							if (matchColumns.length > 0) {
+								const matched = result.rowsAffected > 0;
+								responseData = {
+									...responseData,
+									matched: matched ? 1 : 0,
+									unmatched: matched ? 0 : 1,
+									unmatchedKeys: matched ? [] : [toKeyObject(matchColumns, keyValues)],
+								};
+							}
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Delete Rows');
+						}
+					} else if (operation === 'selectRows') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
+
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
 
-	methods = {
-		loadOptions: {
-			async getTables(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const returnData: INodePropertyOptions[] = [];
+						const selectAllColumns = this.getNodeParameter('selectAllColumns', i) as boolean;
 
-				try {
-					// Get credentials and connect to database
-					const credentials = await this.getCredentials('tursoDb');
+						let columnsList: string;
+						let selectedColumns: string[] = [];
+						if (selectAllColumns) {
+							columnsList = '*';
+						} else {
+							selectedColumns = this.getNodeParameter('columns', i) as string[];
 
-					if (!credentials.databaseUrl || !credentials.authToken) {
-						throw new Error('Database URL and auth token are required');
-					}
+							if (!selectedColumns || selectedColumns.length === 0) {
+								throw new NodeOperationError(this.getNode(), 'At least one column must be selected', { itemIndex: i });
+							}
 
-					const client = createClient({
-						url: credentials.databaseUrl as string,
-						authToken: credentials.authToken as string,
-					});
-
-					// Fetch tables
-					const result = await client.execute({
-						sql: "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'",
-						args: [],
-					});
-
-					// Add tables to options
-					for (const row of result.rows || []) {
-						const tableName = (row as any).name;
-						returnData.push({
-							name: tableName,
-							value: tableName,
-						});
-					}
-				} catch (error) {
-					// We can't use NodeOperationError in load options methods
-					console.error('Error loading tables:', error);
-					returnData.push({
-						name: 'Error loading tables',
-						value: '',
-						description: error instanceof Error ? error.message : 'Unknown error',
-					});
-				}
+							columnsList = selectedColumns.map(quoteIdentifier).join(', ');
+						}
 
-				return returnData;
-			},
-			async getColumns(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const returnData: INodePropertyOptions[] = [];
+						const useWhere = this.getNodeParameter('useWhere', i, false) as boolean;
+						let whereClause = '';
+						let whereArgs: InArgs = [];
 
-				try {
-					// Get the currently selected table
-					const currentTable = this.getCurrentNodeParameter('table') as string;
+						if (useWhere) {
+							const filter = await getWhereFilter.call(this, 'Select', i);
 
-					if (!currentTable) {
-						return returnData;
-					}
+							if (!filter.clause) {
+								throw new NodeOperationError(this.getNode(), 'WHERE clause cannot be empty when "Use Where Clause" is enabled', { itemIndex: i });
+							}
 
-					// Get credentials and connect to database
-					const credentials = await this.getCredentials('tursoDb');
+							whereClause = filter.clause;
+							whereArgs = filter.args;
+							selectedColumns = [...selectedColumns, ...filter.columns];
+						}
 
-					if (!credentials.databaseUrl || !credentials.authToken) {
-						throw new Error('Database URL and auth token are required');
-					}
+						const useOrderBy = this.getNodeParameter('useOrderBy', i, false) as boolean;
+						let orderByClause = '';
+						let orderBy: string | undefined;
+						let orderDirection = 'ASC';
 
-					const client = createClient({
-						url: credentials.databaseUrl as string,
-						authToken: credentials.authToken as string,
-					});
-
-					// Fetch columns
-					const result = await client.execute({
-						sql: `PRAGMA table_info(${currentTable})`,
-						args: [],
-					});
-
-					// Add columns to options
-					for (const row of result.rows || []) {
-						const columnName = (row as any).name;
-						const columnType = (row as any).type;
-						returnData.push({
-							name: `${columnName} (${columnType})`,
-							value: columnName,
-						});
-					}
-				} catch (error) {
-					// We can't use NodeOperationError in load options methods
-					console.error('Error loading columns:', error);
-					returnData.push({
-						name: 'Error loading columns',
-						value: '',
-						description: error instanceof Error ? error.message : 'Unknown error',
-					});
-				}
+						if (useOrderBy) {
+							orderBy = this.getNodeParameter('orderBy', i) as string;
 
-				return returnData;
-			},
-		},
-	};
+							if (!orderBy || orderBy.trim() === '') {
+								throw new NodeOperationError(this.getNode(), 'Order by column must be selected when "Use Order By" is enabled', { itemIndex: i });
+							}
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
-		const operation = this.getNodeParameter('operation', 0) as string;
+							orderDirection = this.getNodeParameter('orderDirection', i) === 'DESC' ? 'DESC' : 'ASC';
+							selectedColumns = [...selectedColumns, orderBy];
+							orderByClause = ` ORDER BY ${quoteIdentifier(orderBy)} ${orderDirection}`;
+						}
 
-		let responseData;
+						const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+						const useLimit = !returnAll && (this.getNodeParameter('useLimit', i, false) as boolean);
+						let limitOffsetClause = '';
 
-		// Create a db client once for all items
-		let client;
-		try {
-			const credentials = await this.getCredentials('tursoDb');
+						if (useLimit) {
+							const limit = this.getNodeParameter('limit', i) as number;
 
-			if (!credentials.databaseUrl || !credentials.authToken) {
-				throw new NodeOperationError(this.getNode(), 'Database URL and auth token are required');
-			}
+							if (limit <= 0) {
+								throw new NodeOperationError(this.getNode(), 'Limit must be greater than 0', { itemIndex: i });
+							}
 
-			client = createClient({
-				url: credentials.databaseUrl as string,
-				authToken: credentials.authToken as string,
-			});
-		} catch (error) {
-			// Handle connection setup errors
-			if (error instanceof NodeOperationError) {
-				throw error;
-			}
-			throw new NodeOperationError(
-				this.getNode(),
-				`Error connecting to Turso database: ${error instanceof Error ? error.message : 'Unknown error'}`,
-			);
-		}
+							limitOffsetClause = ` LIMIT ${Math.floor(Number(limit))}`;
 
-		for (let i = 0; i < items.length; i++) {
-			try {
-				// Handle database operations with libsql client
-				if (operation === 'executeQuery') {
-					const query = this.getNodeParameter('query', i) as string;
+							const offset = this.getNodeParameter('offset', i, 0) as number;
+							if (offset > 0) {
+								limitOffsetClause += ` OFFSET ${Math.floor(Number(offset))}`;
+							}
+						}
 
-					if (!query || query.trim() === '') {
-						throw new NodeOperationError(this.getNode(), 'SQL query cannot be empty', { itemIndex: i });
-					}
+						const tableSchema = await getTableSchema.call(this, client, table, selectedColumns, i);
 
-					const queryParameters = this.getNodeParameter('queryParams.params', i, []) as Array<{
-						value: string;
-					}>;
+						let query = `SELECT ${columnsList} FROM ${quoteIdentifier(tableSchema.name)}`;
 
-					const args = queryParameters.map(param => param.value);
+						if (useWhere) {
+							query += ` WHERE ${whereClause}`;
+						}
+
+						query += orderByClause + limitOffsetClause;
+
+						const pageSize = returnAll ? Math.floor(Number(this.getNodeParameter('pageSize', i, 1000))) : 0;
+
+						if (returnAll && !(pageSize > 0)) {
+							throw new NodeOperationError(this.getNode(), 'Page size must be greater than 0', { itemIndex: i });
+						}
+
+						try {
+							if (returnAll) {
+								// Keyset pagination stays fast on large tables, OFFSET is the fallback
+								const cursor = await getPageCursor(client, tableSchema.name, orderBy, orderDirection);
 
-					try {
-						const result = await client.execute({
-							sql: query,
-							args,
-						});
+								responseData = await selectAllPages(
+									client,
+									{ columnsList, table: tableSchema.name, whereClause, whereArgs, orderByClause },
+									cursor,
+									pageSize,
+								);
+							} else {
+								const result = await client.execute({
+									sql: query,
+									args: whereArgs,
+								});
 
-						// Process the result in a type-safe manner
-						const columnNames = result.columns?.map(column => {
-							// The column can be either an object with a name property or a string
-							if (typeof column === 'string') {
-								return column;
+								// A select reports no affected rows
+								const { columns, rows } = toProcessedResult(result);
+								responseData = { columns, rows } as ProcessedResult;
 							}
-							// Otherwise it should be an object with a name property
-							return (column as unknown as ResultColumn).name;
-						}) || [];
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Select Rows');
+						}
 
-						responseData = {
-							columns: columnNames,
-							rows: result.rows || [],
-							rowsAffected: result.rowsAffected,
-							lastInsertRowid: result.lastInsertRowid,
-						} as ProcessedResult;
-					} catch (error) {
-						handleDatabaseError(this, error, i, 'Execute Query');
-					}
+						const outputFormat = this.getNodeParameter('outputFormat', i, 'envelope') as string;
 
-				} else if (operation === 'executeBatch') {
-					const queries = this.getNodeParameter('queries.queryValues', i, []) as Array<{
-						query: string;
-						parameters: string;
-					}>;
+						if (outputFormat === 'items') {
+							outputItems = rowsToJson(responseData);
+						} else if (outputFormat === 'compact') {
+							responseData = toCompactResult(responseData);
+						}
+					} else if (operation === 'export') {
+						const exportSource = this.getNodeParameter('exportSource', i, 'table') as string;
+						const format = this.getNodeParameter('exportFormat', i, 'csv') as string;
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i, 'data') as string;
+						const pageSize = Math.floor(Number(this.getNodeParameter('pageSize', i, 1000)));
 
-					if (queries.length === 0) {
-						throw new NodeOperationError(this.getNode(), 'At least one query is required for batch execution', { itemIndex: i });
-					}
+						if (!(pageSize > 0)) {
+							throw new NodeOperationError(this.getNode(), 'Page size must be greater than 0', { itemIndex: i });
+						}
 
-					const results: ProcessedResult[] = [];
+						let pages: AsyncGenerator<ProcessedResult>;
+						let sourceName = 'export';
 
-					for (const queryItem of queries) {
-						const { query, parameters } = queryItem;
+						if (exportSource === 'query') {
+							const query = trimStatement(this.getNodeParameter('query', i) as string);
 
-						if (!query || query.trim() === '') {
-							throw new NodeOperationError(this.getNode(), 'SQL query cannot be empty', { itemIndex: i });
+							if (query === '') {
+								throw new NodeOperationError(this.getNode(), 'SQL query cannot be empty', { itemIndex: i });
+							}
+
+							// The query runs once, in the order it defines, and its rows are written in pages
+							let result: ProcessedResult | undefined;
+							try {
+								result = toProcessedResult(
+									await client.execute({ sql: query, args: await getQueryArgs.call(this, 'queryParams', i) }),
+								);
+							} catch (error) {
+								handleDatabaseError(this, error, i, 'Export');
+							}
+							pages = splitIntoPages(result, pageSize);
+						} else {
+							const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
+
+							if (!table || table.trim() === '') {
+								throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+							}
+
+							const tableSchema = await getTableSchema.call(this, client, table, [], i);
+							sourceName = tableSchema.name;
+							const cursor = await getPageCursor(client, tableSchema.name, undefined, 'ASC');
+							const select = {
+								columnsList: '*',
+								source: quoteIdentifier(tableSchema.name),
+								whereClause: '',
+								whereArgs: [],
+								orderByClause: '',
+							};
+							pages = readPages(client, select, cursor, pageSize);
+						}
+
+						const delimiter = (this.getNodeParameter('delimiter', i, ',') as string).replace(/\\t/g, '\t');
+
+						if (format === 'csv' && delimiter === '') {
+							throw new NodeOperationError(this.getNode(), 'Delimiter cannot be empty', { itemIndex: i });
 						}
 
-						const args = parameters ? parameters.split(',').map(p => p.trim()) : [];
+						const insertTable = (this.getNodeParameter('insertTable', i, '') as string).trim() || sourceName;
+						const { extension, mimeType } = EXPORT_FORMATS[format] ?? EXPORT_FORMATS.csv;
+						const fileName = (this.getNodeParameter('fileName', i, '') as string).trim() || `${sourceName}.${extension}`;
+						const counter = { rows: 0 };
+
+						// Pages are written to the binary data as they are read
+						const stream = Readable.from(
+							writeExport(
+								pages,
+								{ format, delimiter, headerRow: this.getNodeParameter('headerRow', i, true) as boolean, insertTable },
+								counter,
+							),
+						);
+
+						try {
+							outputBinary = {
+								[binaryPropertyName]: await this.helpers.prepareBinaryData(stream, fileName, mimeType),
+							};
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Export');
+						}
 
+						responseData = {
+							source: exportSource === 'query' ? 'query' : sourceName,
+							format,
+							fileName,
+							rowCount: counter.rows,
+						};
+					} else if (operation === 'listTables') {
+						// In SQLite, query the sqlite_master table to list all tables
 						try {
 							const result = await client.execute({
-								sql: query,
-								args,
+								sql: "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'",
+								args: [],
 							});
 
-							// Process the result in a type-safe manner
-							const columnNames = result.columns?.map(column => {
-								// The column can be either an object with a name property or a string
-								if (typeof column === 'string') {
-									return column;
-								}
-								// Otherwise it should be an object with a name property
-								return (column as unknown as ResultColumn).name;
-							}) || [];
+							const tables = result.rows?.map(row => (row as any).name) || [];
 
-							results.push({
-								columns: columnNames,
-								rows: result.rows || [],
-								rowsAffected: result.rowsAffected,
-								lastInsertRowid: result.lastInsertRowid,
-							} as ProcessedResult);
+							responseData = {
+								tables,
+							};
 						} catch (error) {
-							handleDatabaseError(this, error, i, `Execute Batch - Query: ${query}`);
+							handleDatabaseError(this, error, i, 'List Tables');
 						}
-					}
+					} else if (operation === 'listSchemaObjects') {
+						const objectTypes = this.getNodeParameter('objectTypes', i, []) as string[];
 
-					responseData = results;
-				} else if (operation === 'insertRows') {
-					const table = this.getNodeParameter('table', i) as string;
+						try {
+							// Virtual tables are tables in sqlite_master, told apart by their SQL
+							const result = await client.execute({
+								sql: "SELECT CASE WHEN type = 'table' AND sql LIKE 'CREATE VIRTUAL TABLE%' THEN 'virtual' ELSE type END AS type, name, tbl_name AS \"table\", sql FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name",
+								args: [],
+							});
 
-					if (!table || table.trim() === '') {
-						throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
-					}
+							const objects = result.rows
+								.map(row => ({ ...row }) as IDataObject)
+								.filter(object => objectTypes.length === 0 || objectTypes.includes(object.type as string));
 
-					const selectedColumns = this.getNodeParameter('columns', i) as string[];
+							responseData = {
+								objects,
+							};
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'List Schema Objects');
+						}
+					} else if (operation === 'describeTable') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
 
-					if (!selectedColumns || selectedColumns.length === 0) {
-						throw new NodeOperationError(this.getNode(), 'At least one column must be selected', { itemIndex: i });
-					}
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
 
-					const dataSource = this.getNodeParameter('dataSource', i) as string;
+						const tableSchema = await getTableSchema.call(this, client, table, [], i);
+						const includeRowCount = this.getNodeParameter('includeRowCount', i, false) as boolean;
 
-					const columnNames = selectedColumns;
-					const placeholders = columnNames.map(() => '?').join(', ');
+						try {
+							responseData = await describeTableSchema(client, tableSchema, includeRowCount);
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Describe Table');
+						}
+					} else if (operation === 'createTable') {
+						const tableName = (this.getNodeParameter('newTableName', i) as string).trim();
 
-					let rows: any[][] = [];
+						if (tableName === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
 
-					if (dataSource === 'manualInput') {
-						const valueItems = this.getNodeParameter('values.valueItems', i, []) as Array<{ value: string }>;
+						const definitions =
+							(this.getNodeParameter('tableColumns', i, {}) as { column?: ColumnDefinition[] }).column || [];
 
-						if (valueItems.length === 0) {
-							throw new NodeOperationError(this.getNode(), 'No values provided for insert operation', { itemIndex: i });
+						if (definitions.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'At least one column must be defined', { itemIndex: i });
 						}
 
-						// Group values by rows
-						const valuesPerRow = columnNames.length;
-						const values = valueItems.map(item => item.value);
+						const strictTable = this.getNodeParameter('strictTable', i, false) as boolean;
+						const withoutRowid = this.getNodeParameter('withoutRowid', i, false) as boolean;
+						const ifNotExists = this.getNodeParameter('ifNotExists', i, false) as boolean;
+						const primaryKey = definitions.filter(column => column.primaryKey).map(column => (column.name || '').trim());
 
-						if (values.length % valuesPerRow !== 0) {
-							throw new NodeOperationError(
-								this.getNode(),
-								`Values count (${values.length}) is not a multiple of columns count (${valuesPerRow})`,
-								{ itemIndex: i },
-							);
+						if (primaryKey.length > 1 && definitions.some(column => column.primaryKey && column.autoIncrement)) {
+							throw new NodeOperationError(this.getNode(), 'Auto increment needs a primary key of a single INTEGER column', { itemIndex: i });
 						}
 
-						for (let j = 0; j < values.length; j += valuesPerRow) {
-							const row = values.slice(j, j + valuesPerRow);
-							rows.push(row);
+						if (withoutRowid && primaryKey.length === 0) {
+							throw new NodeOperationError(this.getNode(), 'A table without rowid needs a primary key', { itemIndex: i });
 						}
-					} else { // inputItems
-						const itemsPath = this.getNodeParameter('itemsPath', i, 'data') as string;
 
-						// Get data from incoming items
-						for (const item of items) {
-							let rowData: any;
+						// A key of several columns is a table constraint, a single one is declared on its column
+						const lines = definitions.map(column => buildColumnDefinition.call(this, column, primaryKey.length === 1, i));
+						if (primaryKey.length > 1) {
+							lines.push(`PRIMARY KEY (${primaryKey.map(quoteIdentifier).join(', ')})`);
+						}
 
-							if (itemsPath) {
-								rowData = item.json[itemsPath];
+						const tableOptions = [strictTable ? 'STRICT' : '', withoutRowid ? 'WITHOUT ROWID' : ''].filter(Boolean);
+						const query = `CREATE TABLE ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteIdentifier(tableName)} (${lines.join(', ')})${tableOptions.length > 0 ? ` ${tableOptions.join(', ')}` : ''}`;
 
-								if (rowData === undefined) {
-									throw new NodeOperationError(
-										this.getNode(),
-										`Item path '${itemsPath}' not found in input data`,
-										{ itemIndex: i },
-									);
-								}
-							} else {
-								rowData = item.json;
-							}
+						try {
+							await client.execute({ sql: query, args: [] });
 
-							// If it's an array of objects, extract values in the right order
-							if (Array.isArray(rowData)) {
-								for (const entry of rowData) {
-									const row = columnNames.map(name => entry[name]);
-									rows.push(row);
-								}
-							} else if (typeof rowData === 'object' && rowData !== null) {
-								// If it's an object, extract values in the right order
-								const row = columnNames.map(name => rowData[name]);
-								rows.push(row);
-							}
+							responseData = {
+								table: tableName,
+								columns: definitions.map(column => (column.name || '').trim()),
+								sql: query,
+							};
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Create Table');
 						}
+					} else if (
+						operation === 'addColumn' ||
+						operation === 'renameColumn' ||
+						operation === 'dropColumn' ||
+						operation === 'createIndex' ||
+						operation === 'dropIndex' ||
+						operation === 'dropTable'
+					) {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
 
-						if (rows.length === 0) {
-							throw new NodeOperationError(this.getNode(), 'No data found to insert', { itemIndex: i });
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
 						}
-					}
 
-					// Execute insert queries
-					const results: ProcessedResult[] = [];
+						let selectedColumns: string[] = [];
+						if (operation === 'renameColumn' || operation === 'dropColumn') {
+							selectedColumns = [this.getNodeParameter('column', i) as string];
+						} else if (operation === 'createIndex') {
+							selectedColumns = this.getNodeParameter('columns', i) as string[];
+						}
+
+						if (selectedColumns.some(column => !column || column.trim() === '')) {
+							throw new NodeOperationError(this.getNode(), 'A column must be selected', { itemIndex: i });
+						}
+
+						const tableSchema = await getTableSchema.call(this, client, table, selectedColumns, i);
+						const source = quoteIdentifier(tableSchema.name);
+						// Columns are named as declared, whatever case was entered
+						const columnNames = selectedColumns.map(
+							column => tableSchema.columns.find(name => name.toLowerCase() === column.toLowerCase()) ?? column,
+						);
+
+						let query = '';
+
+						if (operation === 'addColumn') {
+							const definition = (this.getNodeParameter('newColumn', i, {}) as { column?: ColumnDefinition }).column;
+
+							if (!definition) {
+								throw new NodeOperationError(this.getNode(), 'The column to add must be defined', { itemIndex: i });
+							}
+
+							query = `ALTER TABLE ${source} ADD COLUMN ${buildColumnDefinition.call(this, definition, false, i)}`;
+							responseData = { table: tableSchema.name, column: (definition.name || '').trim() };
+						} else if (operation === 'renameColumn') {
+							const newColumnName = (this.getNodeParameter('newColumnName', i) as string).trim();
+
+							if (newColumnName === '') {
+								throw new NodeOperationError(this.getNode(), 'New column name cannot be empty', { itemIndex: i });
+							}
+
+							query = `ALTER TABLE ${source} RENAME COLUMN ${quoteIdentifier(columnNames[0])} TO ${quoteIdentifier(newColumnName)}`;
+							responseData = { table: tableSchema.name, column: columnNames[0], newColumnName };
+						} else if (operation === 'dropColumn') {
+							query = `ALTER TABLE ${source} DROP COLUMN ${quoteIdentifier(columnNames[0])}`;
+							responseData = { table: tableSchema.name, column: columnNames[0] };
+						} else if (operation === 'createIndex') {
+							if (columnNames.length === 0) {
+								throw new NodeOperationError(this.getNode(), 'At least one column must be selected', { itemIndex: i });
+							}
+
+							const indexName =
+								(this.getNodeParameter('tableIndexName', i, '') as string).trim() ||
+								`${tableSchema.name}_${columnNames.join('_')}_idx`;
+							const unique = this.getNodeParameter('uniqueIndex', i, false) as boolean;
+							const ifNotExists = this.getNodeParameter('ifNotExists', i, false) as boolean;
+
+							query = `CREATE ${unique ? 'UNIQUE ' : ''}INDEX ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteIdentifier(indexName)} ON ${source} (${columnNames.map(quoteIdentifier).join(', ')})`;
+							responseData = { index: indexName, table: tableSchema.name, columns: columnNames, unique };
+						} else if (operation === 'dropIndex') {
+							const indexName = this.getNodeParameter('index', i) as string;
+
+							if (!indexName || indexName.trim() === '') {
+								throw new NodeOperationError(this.getNode(), 'An index must be selected', { itemIndex: i });
+							}
+
+							query = `DROP INDEX ${quoteIdentifier(indexName)}`;
+							responseData = { index: indexName, table: tableSchema.name };
+						} else {
+							if (this.getNodeParameter('confirmDrop', i, false) !== true) {
+								throw new NodeOperationError(this.getNode(), `Table "${tableSchema.name}" was not dropped, the drop is not confirmed`, {
+									itemIndex: i,
+									description: 'Turn on "Confirm Drop" to drop the table with all its rows',
+								});
+							}
 
-					for (const row of rows) {
-						const query = `INSERT INTO ${table} (${columnNames.join(', ')}) VALUES (${placeholders})`;
+							query = `DROP ${tableSchema.type === 'view' ? 'VIEW' : 'TABLE'} ${source}`;
+							responseData = { table: tableSchema.name };
+						}
 
 						try {
-							const result = await client.execute({
-								sql: query,
-								args: row,
-							});
+							await client.execute({ sql: query, args: [] });
 
-							results.push({
-								rowsAffected: result.rowsAffected,
-								lastInsertRowid: result.lastInsertRowid,
-							} as ProcessedResult);
+							responseData.sql = query;
 						} catch (error) {
-							handleDatabaseError(this, error, i, 'Insert Rows');
+							const operationNames: { [operation: string]: string } = {
+								addColumn: 'Add Column',
+								renameColumn: 'Rename Column',
+								dropColumn: 'Drop Column',
+								createIndex: 'Create Index',
+								dropIndex: 'Drop Index',
+								dropTable: 'Drop Table',
+							};
+							handleDatabaseError(this, error, i, operationNames[operation]);
 						}
-					}
+					} else if (operation === 'runMigrations') {
+						const migrationSource = this.getNodeParameter('migrationSource', i, 'parameters') as string;
+						const trackingTable = (this.getNodeParameter('migrationsTable', i, 'schema_migrations') as string).trim();
+						const dryRun = this.getNodeParameter('dryRun', i, false) as boolean;
 
-					responseData = results;
-				} else if (operation === 'updateRows') {
-					const table = this.getNodeParameter('table', i) as string;
+						if (trackingTable === '') {
+							throw new NodeOperationError(this.getNode(), 'Tracking table name cannot be empty', { itemIndex: i });
+						}
 
-					if (!table || table.trim() === '') {
-						throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
-					}
+						let migrations: Migration[];
+						if (migrationSource === 'binary') {
+							migrations = await getBinaryMigrations.call(this, i);
+						} else if (migrationSource === 'field') {
+							const migrationsField = this.getNodeParameter('migrationsField', i, 'migrations') as string;
 
-					const selectedColumns = this.getNodeParameter('columns', i) as string[];
+							if (items[i].json[migrationsField] === undefined) {
+								throw new NodeOperationError(this.getNode(), `Field '${migrationsField}' not found in input data`, { itemIndex: i });
+							}
 
-					if (!selectedColumns || selectedColumns.length === 0) {
-						throw new NodeOperationError(this.getNode(), 'At least one column must be selected', { itemIndex: i });
-					}
+							migrations = toMigrations.call(this, items[i].json[migrationsField], i);
+						} else {
+							const parameterMigrations = this.getNodeParameter('migrations', i, {}) as { migrationValues?: IDataObject[] };
+							migrations = toMigrations.call(this, parameterMigrations.migrationValues || [], i);
+						}
+
+						const tracking = quoteIdentifier(trackingTable);
+						const applied = new Map<string, string>();
+						let currentMigration = '';
 
-					const whereClause = this.getNodeParameter('whereClause', i) as string;
+						try {
+							const existing = await client.execute({
+								sql: "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ? COLLATE NOCASE",
+								args: [trackingTable],
+							});
+
+							if (existing.rows.length > 0) {
+								const appliedRows = await client.execute({ sql: `SELECT name, checksum FROM ${tracking}`, args: [] });
+								for (const row of appliedRows.rows) {
+									applied.set(row.name as string, row.checksum as string);
+								}
+							} else if (!dryRun) {
+								await client.execute({
+									sql: `CREATE TABLE ${tracking} (name TEXT PRIMARY KEY, checksum TEXT NOT NULL, applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)`,
+									args: [],
+								});
+							}
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Run Migrations');
+						}
 
-					if (!whereClause || whereClause.trim() === '') {
-						throw new NodeOperationError(
-							this.getNode(),
-							'WHERE clause is required for update operations for safety',
-							{ itemIndex: i },
+						// An applied migration that was edited no longer describes the schema, so nothing is run
+						const changed = migrations.filter(
+							migration => applied.has(migration.name) && applied.get(migration.name) !== migration.checksum,
 						);
-					}
 
-					const whereParams = this.getNodeParameter('whereParams.params', i, []) as Array<{ value: string }>;
-					const whereArgs = whereParams.map(param => param.value);
-					const dataSource = this.getNodeParameter('dataSource', i) as string;
+						if (changed.length > 0) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Applied migration(s) ${changed.map(migration => `"${migration.name}"`).join(', ')} were changed`,
+								{
+									itemIndex: i,
+									description: 'A migration must not be edited once it is applied. Add a new migration for further changes.',
+								},
+							);
+						}
+
+						const pending = migrations.filter(migration => !applied.has(migration.name));
 
-					const columnNames = selectedColumns;
-					const setClause = columnNames.map(col => `${col} = ?`).join(', ');
+						if (!dryRun && pending.length > 0) {
+							const transaction = await client.transaction('write');
 
-					let rows: any[][] = [];
+							try {
+								for (const migration of pending) {
+									currentMigration = migration.name;
+									await transaction.executeMultiple(migration.sql);
+									await transaction.execute({
+										sql: `INSERT INTO ${tracking} (name, checksum) VALUES (?, ?)`,
+										args: [migration.name, migration.checksum],
+									});
+								}
+								await transaction.commit();
+							} catch (error) {
+								handleDatabaseError(this, error, i, `Run Migrations (rolled back) - Migration: ${currentMigration}`);
+							} finally {
+								transaction.close();
+							}
+						}
 
-					if (dataSource === 'manualInput') {
-						const valueItems = this.getNodeParameter('values.valueItems', i, []) as Array<{ value: string }>;
+						responseData = {
+							dryRun,
+							trackingTable,
+							[dryRun ? 'pending' : 'applied']: pending.map(migration => migration.name),
+							alreadyApplied: migrations.filter(migration => applied.has(migration.name)).map(migration => migration.name),
+						};
+					} else if (operation === 'createVectorIndex') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
 
-						if (valueItems.length === 0) {
-							throw new NodeOperationError(this.getNode(), 'No values provided for update operation', { itemIndex: i });
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
 						}
 
-						// Group values by rows
-						const valuesPerRow = columnNames.length;
-						const values = valueItems.map(item => item.value);
+						const tableSchema = await getTableSchema.call(this, client, table, [], i);
+						const vectorColumn = await getVectorColumn.call(this, client, tableSchema.name, this.getNodeParameter('vectorColumn', i) as string, i);
+						const metric = this.getNodeParameter('metric', i, 'cosine') === 'l2' ? 'l2' : 'cosine';
+						const maxNeighbors = Math.floor(Number(this.getNodeParameter('maxNeighbors', i, 0)));
+						const indexName =
+							(this.getNodeParameter('indexName', i, '') as string).trim() ||
+							`${tableSchema.name}_${vectorColumn.name}_idx`.replace(/[^A-Za-z0-9_]/g, '_');
 
-						if (values.length % valuesPerRow !== 0) {
+						// libSQL names the tables behind a vector index after it and cannot handle other characters
+						if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(indexName)) {
 							throw new NodeOperationError(
 								this.getNode(),
-								`Values count (${values.length}) is not a multiple of columns count (${valuesPerRow})`,
+								`Index name "${indexName}" is not valid, a vector index name may only contain letters, digits and underscores`,
 								{ itemIndex: i },
 							);
 						}
 
-						for (let j = 0; j < values.length; j += valuesPerRow) {
-							const row = values.slice(j, j + valuesPerRow);
-							rows.push([...row, ...whereArgs]); // Combine row values with where args
+						const settings = [`'metric=${metric}'`];
+						if (maxNeighbors > 0) {
+							settings.push(`'max_neighbors=${maxNeighbors}'`);
 						}
-					} else { // inputItems
-						const itemsPath = this.getNodeParameter('itemsPath', i, 'data') as string;
-
-						// Get data from incoming items
-						for (const item of items) {
-							let rowData: any;
 
-							if (itemsPath) {
-								rowData = item.json[itemsPath];
+						const query = `CREATE INDEX ${quoteIdentifier(indexName)} ON ${quoteIdentifier(tableSchema.name)} (libsql_vector_idx(${quoteIdentifier(vectorColumn.name)}, ${settings.join(', ')}))`;
 
-								if (rowData === undefined) {
-									throw new NodeOperationError(
-										this.getNode(),
-										`Item path '${itemsPath}' not found in input data`,
-										{ itemIndex: i },
-									);
-								}
-							} else {
-								rowData = item.json;
-							}
+						try {
+							await client.execute({ sql: query, args: [] });
 
-							// If it's an array of objects, extract values in the right order
-							if (Array.isArray(rowData)) {
-								for (const entry of rowData) {
-									const row = columnNames.map(name => entry[name]);
-									rows.push([...row, ...whereArgs]); // Combine row values with where args
-								}
-							} else if (typeof rowData === 'object' && rowData !== null) {
-								// If it's an object, extract values in the right order
-								const row = columnNames.map(name => rowData[name]);
-								rows.push([...row, ...whereArgs]); // Combine row values with where args
-							}
+							responseData = {
+								index: indexName,
+								table: tableSchema.name,
+								column: vectorColumn.name,
+								metric,
+								sql: query,
+							};
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Create Vector Index');
 						}
+					} else if (operation === 'insertEmbeddings') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
 
-						if (rows.length === 0) {
-							throw new NodeOperationError(this.getNode(), 'No data found to update', { itemIndex: i });
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
 						}
-					}
 
-					// Execute update queries
-					const results: ProcessedResult[] = [];
+						const selectedColumns = this.getNodeParameter('columns', i, []) as string[];
+						const embeddingField = this.getNodeParameter('embeddingField', i, 'embedding') as string;
+						const tableSchema = await getTableSchema.call(this, client, table, selectedColumns, i);
+						const vectorColumn = await getVectorColumn.call(this, client, tableSchema.name, this.getNodeParameter('vectorColumn', i) as string, i);
+
+						if (items[i].json[embeddingField] === undefined) {
+							throw new NodeOperationError(this.getNode(), `Embedding field '${embeddingField}' not found in input data`, { itemIndex: i });
+						}
 
-					for (const row of rows) {
-						const query = `UPDATE ${table} SET ${setClause} WHERE ${whereClause}`;
+						const columnNames = selectedColumns.filter(column => column.toLowerCase() !== vectorColumn.name.toLowerCase());
+						const vector = toVectorText.call(this, items[i].json[embeddingField], vectorColumn, i);
+						const query = `INSERT INTO ${quoteIdentifier(tableSchema.name)} (${[...columnNames, vectorColumn.name].map(quoteIdentifier).join(', ')}) VALUES (${columnNames.map(() => '?').join(', ')}${columnNames.length > 0 ? ', ' : ''}${vectorColumn.conversion}(?))`;
 
 						try {
 							const result = await client.execute({
 								sql: query,
-								args: row,
+								args: [...columnNames.map(column => toBindValue(items[i].json[column])), vector],
 							});
 
-							results.push({
+							responseData = {
 								rowsAffected: result.rowsAffected,
-							} as ProcessedResult);
+								lastInsertRowid: result.lastInsertRowid !== undefined ? Number(result.lastInsertRowid) : undefined,
+							};
 						} catch (error) {
-							handleDatabaseError(this, error, i, 'Update Rows');
+							handleDatabaseError(this, error, i, 'Insert Rows with Embeddings');
 						}
-					}
+					} else if (operation === 'vectorSearch') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
 
-					responseData = results;
-				} else if (operation === 'deleteRows') {
-					const table = this.getNodeParameter('table', i) as string;
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
 
-					if (!table || table.trim() === '') {
-						throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
-					}
+						const queryVectorField = this.getNodeParameter('queryVectorField', i, 'embedding') as string;
+						const searchMethod = this.getNodeParameter('searchMethod', i, 'exact') as string;
+						const topK = Math.floor(Number(this.getNodeParameter('topK', i, 5)));
+						const includeVector = this.getNodeParameter('includeVector', i, false) as boolean;
+						const metric = this.getNodeParameter('metric', i, 'cosine') === 'l2' ? 'l2' : 'cosine';
 
-					const whereClause = this.getNodeParameter('whereClause', i) as string;
+						if (!(topK > 0)) {
+							throw new NodeOperationError(this.getNode(), 'Top K must be greater than 0', { itemIndex: i });
+						}
 
-					if (!whereClause || whereClause.trim() === '') {
-						throw new NodeOperationError(
-							this.getNode(),
-							'WHERE clause is required for delete operations for safety',
-							{ itemIndex: i },
-						);
-					}
+						if (items[i].json[queryVectorField] === undefined) {
+							throw new NodeOperationError(this.getNode(), `Query vector field '${queryVectorField}' not found in input data`, { itemIndex: i });
+						}
 
-					const whereParams = this.getNodeParameter('whereParams.params', i, []) as Array<{ value: string }>;
-					const whereArgs = whereParams.map(param => param.value);
+						const filter = buildFilterClause.call(this, 'Search', i);
+						const tableSchema = await getTableSchema.call(this, client, table, filter.columns, i);
+						const vectorColumn = await getVectorColumn.call(this, client, tableSchema.name, this.getNodeParameter('vectorColumn', i) as string, i);
+						const vector = toVectorText.call(this, items[i].json[queryVectorField], vectorColumn, i);
 
-					const query = `DELETE FROM ${table} WHERE ${whereClause}`;
+						// The vector is binary data, so it is only returned when asked for, as an array of numbers
+						const columnsList = tableSchema.columns
+							.filter(column => column !== vectorColumn.name)
+							.map(quoteIdentifier)
+							.concat(
+								includeVector
+									? [`vector_extract(${quoteIdentifier(vectorColumn.name)}) AS ${quoteIdentifier(vectorColumn.name)}`]
+									: [],
+							)
+							.join(', ');
+						const distance = `${VECTOR_DISTANCES[metric]}(${quoteIdentifier(vectorColumn.name)}, ${vectorColumn.conversion}(?))`;
+						const conditions: string[] = [];
+						const args: InValue[] = [vector];
 
-					try {
-						const result = await client.execute({
-							sql: query,
-							args: whereArgs,
-						});
+						if (searchMethod === 'index') {
+							const vectorIndex = this.getNodeParameter('vectorIndex', i) as string;
 
-						responseData = {
-							rowsAffected: result.rowsAffected,
-						};
-					} catch (error) {
-						handleDatabaseError(this, error, i, 'Delete Rows');
-					}
-				} else if (operation === 'selectRows') {
-					const table = this.getNodeParameter('table', i) as string;
+							if (!vectorIndex) {
+								throw new NodeOperationError(this.getNode(), 'A vector index must be selected', { itemIndex: i });
+							}
 
-					if (!table || table.trim() === '') {
-						throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
-					}
+							// The index returns the rowids of the nearest rows, the filter applies to those
+							conditions.push(`rowid IN (SELECT id FROM vector_top_k(?, ${vectorColumn.conversion}(?), ?))`);
+							args.push(vectorIndex, vector, topK);
+						}
+
+						if (filter.clause) {
+							conditions.push(`(${filter.clause})`);
+							args.push(...(filter.args as InValue[]));
+						}
+
+						let query = `SELECT ${columnsList || 'rowid'}, ${distance} AS distance FROM ${quoteIdentifier(tableSchema.name)}`;
+
+						if (conditions.length > 0) {
+							query += ` WHERE ${conditions.join(' AND ')}`;
+						}
+
+						query += ' ORDER BY distance LIMIT ?';
+						args.push(topK);
+
+						try {
+							const result = toProcessedResult(await client.execute({ sql: query, args }));
+
+							responseData = {
+								columns: result.columns,
+								rows: includeVector
+									? (result.rows as IDataObject[]).map(row => ({
+											...row,
+											[vectorColumn.name]: row[vectorColumn.name] === null ? null : JSON.parse(row[vectorColumn.name] as string),
+										}))
+									: result.rows,
+							};
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Vector Search');
+						}
 
-					const selectAllColumns = this.getNodeParameter('selectAllColumns', i) as boolean;
+						const outputFormat = this.getNodeParameter('outputFormat', i, 'envelope') as string;
+
+						if (outputFormat === 'items') {
+							outputItems = rowsToJson(responseData);
+						} else if (outputFormat === 'compact') {
+							responseData = toCompactResult(responseData);
+						}
+					} else if (operation === 'createFtsIndex') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
+
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
 
-					let columnsList: string;
-					if (selectAllColumns) {
-						columnsList = '*';
-					} else {
 						const selectedColumns = this.getNodeParameter('columns', i) as string[];
 
 						if (!selectedColumns || selectedColumns.length === 0) {
 							throw new NodeOperationError(this.getNode(), 'At least one column must be selected', { itemIndex: i });
 						}
 
-						columnsList = selectedColumns.join(', ');
-					}
+						const tableSchema = await getTableSchema.call(this, client, table, selectedColumns, i);
+
+						if (tableSchema.type !== 'table') {
+							throw new NodeOperationError(this.getNode(), `"${tableSchema.name}" is a ${tableSchema.type}, a full-text index needs a table`, { itemIndex: i });
+						}
+
+						const ftsTable = (this.getNodeParameter('ftsTableName', i, '') as string).trim() || `${tableSchema.name}_fts`;
+						const tokenizer = this.getNodeParameter('tokenizer', i, 'unicode61') as string;
+						const source = quoteIdentifier(tableSchema.name);
+						const index = quoteIdentifier(ftsTable);
+						const columns = selectedColumns.map(quoteIdentifier);
+						const newValues = columns.map(column => `new.${column}`).join(', ');
+						const oldValues = columns.map(column => `old.${column}`).join(', ');
+						const triggers = [`${ftsTable}_insert`, `${ftsTable}_delete`, `${ftsTable}_update`];
 
-					const useWhere = this.getNodeParameter('useWhere', i, false) as boolean;
-					let whereClause = '';
-					let whereArgs: string[] = [];
+						// An external content index stores no copy of the text, the triggers keep it in sync with the table
+						const statements = [
+							`CREATE VIRTUAL TABLE ${index} USING fts5(${columns.join(', ')}, content=${quoteLiteral(tableSchema.name)}, content_rowid='rowid', tokenize=${quoteLiteral(tokenizer)})`,
+							`CREATE TRIGGER ${quoteIdentifier(triggers[0])} AFTER INSERT ON ${source} BEGIN INSERT INTO ${index}(rowid, ${columns.join(', ')}) VALUES (new.rowid, ${newValues}); END`,
+							`CREATE TRIGGER ${quoteIdentifier(triggers[1])} AFTER DELETE ON ${source} BEGIN INSERT INTO ${index}(${index}, rowid, ${columns.join(', ')}) VALUES ('delete', old.rowid, ${oldValues}); END`,
+							`CREATE TRIGGER ${quoteIdentifier(triggers[2])} AFTER UPDATE ON ${source} BEGIN INSERT INTO ${index}(${index}, rowid, ${columns.join(', ')}) VALUES ('delete', old.rowid, ${oldValues}); INSERT INTO ${index}(rowid, ${columns.join(', ')}) VALUES (new.rowid, ${newValues}); END`,
+							`INSERT INTO ${index}(${index}) VALUES ('rebuild')`,
+						];
 
-					if (useWhere) {
-						whereClause = this.getNodeParameter('whereClauseSelect', i) as string;
+						try {
+							await client.batch(statements, 'write');
 
-						if (!whereClause || whereClause.trim() === '') {
-							throw new NodeOperationError(this.getNode(), 'WHERE clause cannot be empty when "Use Where Clause" is enabled', { itemIndex: i });
+							responseData = {
+								index: ftsTable,
+								table: tableSchema.name,
+								columns: selectedColumns,
+								triggers,
+								statements,
+							};
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Create Full-Text Index');
 						}
+					} else if (operation === 'ftsSearch') {
+						const table = this.getNodeParameter('table', i, '', { extractValue: true }) as string;
 
-						const whereParams = this.getNodeParameter('whereParamsSelect.params', i, []) as Array<{ value: string }>;
-						whereArgs = whereParams.map(param => param.value);
-					}
+						if (!table || table.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
+						}
 
-					const useOrderBy = this.getNodeParameter('useOrderBy', i, false) as boolean;
-					let orderByClause = '';
+						const ftsIndex = this.getNodeParameter('ftsIndex', i) as string;
+						const matchExpression = this.getNodeParameter('matchExpression', i) as string;
+						const maxResults = Math.floor(Number(this.getNodeParameter('maxResults', i, 50)));
+						const matchedText = this.getNodeParameter('matchedText', i, 'none') as string;
 
-					if (useOrderBy) {
-						const orderBy = this.getNodeParameter('orderBy', i) as string;
+						if (!ftsIndex) {
+							throw new NodeOperationError(this.getNode(), 'A full-text index must be selected', { itemIndex: i });
+						}
 
-						if (!orderBy || orderBy.trim() === '') {
-							throw new NodeOperationError(this.getNode(), 'Order by column must be selected when "Use Order By" is enabled', { itemIndex: i });
+						if (!matchExpression || matchExpression.trim() === '') {
+							throw new NodeOperationError(this.getNode(), 'Match expression cannot be empty', { itemIndex: i });
 						}
 
-						const orderDirection = this.getNodeParameter('orderDirection', i) as string;
-						orderByClause = ` ORDER BY ${orderBy} ${orderDirection}`;
-					}
+						if (!(maxResults > 0)) {
+							throw new NodeOperationError(this.getNode(), 'Max results must be greater than 0', { itemIndex: i });
+						}
 
-					const useLimit = this.getNodeParameter('useLimit', i, false) as boolean;
-					let limitOffsetClause = '';
+						const tableSchema = await getTableSchema.call(this, client, table, [], i);
+						const indexSchema = await getTableSchema.call(this, client, ftsIndex, [], i);
+						const source = quoteIdentifier(tableSchema.name);
+						const index = quoteIdentifier(indexSchema.name);
 
-					if (useLimit) {
-						const limit = this.getNodeParameter('limit', i) as number;
+						let selectList = `${source}.*, bm25(${index}) AS rank`;
+						const args: InValue[] = [];
 
-						if (limit <= 0) {
-							throw new NodeOperationError(this.getNode(), 'Limit must be greater than 0', { itemIndex: i });
-						}
+						if (matchedText === 'highlight' || matchedText === 'snippet') {
+							const column = this.getNodeParameter('matchedTextColumn', i) as string;
+							const columnIndex = indexSchema.columns.findIndex(name => name.toLowerCase() === (column || '').toLowerCase());
 
-						limitOffsetClause = ` LIMIT ${limit}`;
+							if (columnIndex === -1) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Column "${column}" is not part of the full-text index "${indexSchema.name}"`,
+									{ itemIndex: i, description: `Indexed columns: ${indexSchema.columns.join(', ')}` },
+								);
+							}
+
+							const markStart = this.getNodeParameter('markStart', i, '<b>') as string;
+							const markEnd = this.getNodeParameter('markEnd', i, '</b>') as string;
 
-						const offset = this.getNodeParameter('offset', i, 0) as number;
-						if (offset > 0) {
-							limitOffsetClause += ` OFFSET ${offset}`;
+							if (matchedText === 'snippet') {
+								selectList += `, snippet(${index}, ?, ?, ?, '...', ?) AS snippet`;
+								args.push(columnIndex, markStart, markEnd, Math.floor(Number(this.getNodeParameter('snippetTokens', i, 10))));
+							} else {
+								selectList += `, highlight(${index}, ?, ?, ?) AS highlight`;
+								args.push(columnIndex, markStart, markEnd);
+							}
 						}
-					}
 
-					let query = `SELECT ${columnsList} FROM ${table}`;
+						args.push(matchExpression, maxResults);
 
-					if (useWhere) {
-						query += ` WHERE ${whereClause}`;
-					}
+						// bm25() is lower for better matches
+						const query = `SELECT ${selectList} FROM ${index} JOIN ${source} ON ${source}.rowid = ${index}.rowid WHERE ${index} MATCH ? ORDER BY rank LIMIT ?`;
 
-					query += orderByClause + limitOffsetClause;
+						try {
+							const result = toProcessedResult(await client.execute({ sql: query, args }));
 
-					try {
-						const result = await client.execute({
-							sql: query,
-							args: whereArgs,
-						});
+							responseData = {
+								columns: result.columns,
+								rows: result.rows,
+							};
+						} catch (error) {
+							handleDatabaseError(this, error, i, 'Full-Text Search');
+						}
 
-						// Process the result in a type-safe manner
-						const columnNames = result.columns?.map(column => {
-							// The column can be either an object with a name property or a string
-							if (typeof column === 'string') {
-								return column;
-							}
-							// Otherwise it should be an object with a name property
-							return (column as unknown as ResultColumn).name;
-						}) || [];
+						const outputFormat = this.getNodeParameter('outputFormat', i, 'envelope') as string;
 
-						responseData = {
-							columns: columnNames,
-							rows: result.rows || [],
-						};
-					} catch (error) {
-						handleDatabaseError(this, error, i, 'Select Rows');
-					}
-				} else if (operation === 'listTables') {
-					// In SQLite, query the sqlite_master table to list all tables
-					try {
-						const result = await client.execute({
-							sql: "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'",
-							args: [],
-						});
+						if (outputFormat === 'items') {
+							outputItems = rowsToJson(responseData);
+						} else if (outputFormat === 'compact') {
+							responseData = toCompactResult(responseData);
+						}
+					} else if (operation === 'syncNow' || operation === 'syncStatus' || operation === 'readYourWrites') {
+						const config = getConnectionConfig(await this.getCredentials('tursoDb'));
+						const syncUrl = config.syncUrl;
 
-						const tables = result.rows?.map(row => (row as any).name) || [];
+						if (!syncUrl) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'This operation needs a credential with the "Embedded Replica" connection type',
+								{ itemIndex: i },
+							);
+						}
 
-						responseData = {
-							tables,
-						};
-					} catch (error) {
-						handleDatabaseError(this, error, i, 'List Tables');
-					}
-				} else if (operation === 'describeTable') {
-					const table = this.getNodeParameter('table', i) as string;
+						const replicaState = getReplicaState.call(this);
+						const syncs = (replicaState.syncs = replicaState.syncs ?? {});
+						const previousSync = syncs[syncUrl] ?? {};
 
-					if (!table || table.trim() === '') {
-						throw new NodeOperationError(this.getNode(), 'Table name cannot be empty', { itemIndex: i });
-					}
+						// Lag is measured from the syncs this workflow ran and the frames they pulled
+						const secondsSince = (syncedAt?: string, now = Date.now()) =>
+							syncedAt ? Math.round((now - new Date(syncedAt).getTime()) / 1000) : null;
 
-					// In SQLite, query the PRAGMA statement to get table info
-					try {
-						const result = await client.execute({
-							sql: `PRAGMA table_info(${table})`,
-							args: [],
-						});
+						if (operation === 'syncNow') {
+							try {
+								const startedAt = Date.now();
+								const replicated = await client.sync();
+								const syncedAt = new Date().toISOString();
 
-						responseData = {
-							columns: result.rows || [],
-						};
-					} catch (error) {
-						handleDatabaseError(this, error, i, 'Describe Table');
+								syncs[syncUrl] = {
+									lastSyncAt: syncedAt,
+									lastFrameNo: replicated?.frame_no,
+									lastFramesSynced: replicated?.frames_synced ?? 0,
+								};
+
+								responseData = {
+									frameNo: replicated?.frame_no ?? null,
+									framesSynced: replicated?.frames_synced ?? 0,
+									// Frames the primary wrote since the previous sync of this workflow
+									framesSincePreviousSync:
+										replicated?.frame_no !== undefined && previousSync.lastFrameNo !== undefined
+											? replicated.frame_no - previousSync.lastFrameNo
+											: null,
+									syncedAt,
+									durationMs: Date.now() - startedAt,
+									previousSyncAt: previousSync.lastSyncAt ?? null,
+									secondsSincePreviousSync: secondsSince(previousSync.lastSyncAt, startedAt),
+								};
+							} catch (error) {
+								handleDatabaseError(this, error, i, 'Sync Now');
+							}
+						} else if (operation === 'syncStatus') {
+							responseData = {
+								connectionType: 'embeddedReplica',
+								syncUrl,
+								syncInterval: config.syncInterval ?? null,
+								readYourWrites: getReadYourWrites.call(this) ?? true,
+								lastSyncAt: previousSync.lastSyncAt ?? null,
+								lastFrameNo: previousSync.lastFrameNo ?? null,
+								lastFramesSynced: previousSync.lastFramesSynced ?? null,
+								secondsSinceLastSync: secondsSince(previousSync.lastSyncAt),
+							};
+						} else {
+							const readYourWrites = this.getNodeParameter('readYourWrites', i, true) as boolean;
+							const previousValue = getReadYourWrites.call(this) ?? true;
+
+							replicaState.readYourWrites = { executionId: this.getExecutionId(), enabled: readYourWrites };
+
+							responseData = {
+								readYourWrites,
+								previousValue,
+							};
+						}
 					}
-				}
 
-				const executionData = this.helpers.constructExecutionMetaData(
-					this.helpers.returnJsonArray(responseData ? { ...responseData } : {}),
-					{ itemData: { item: i } },
-				);
-				returnData.push(...executionData);
-			} catch (error) {
-				if (this.continueOnFail()) {
-					returnData.push({ json: { error: error.message } });
-					continue;
+					const executionData = this.helpers.constructExecutionMetaData(
+						outputBinary
+							? [{ json: { ...responseData }, binary: outputBinary }]
+							: this.helpers.returnJsonArray(outputItems ?? (responseData ? { ...responseData } : {})),
+						{ itemData },
+					);
+					returnData.push(...executionData);
+				} catch (error) {
+					if (this.continueOnFail()) {
+						returnData.push({ json: { error: error.message } });
+						continue;
+					}
+					throw error;
 				}
-				throw error;
 			}
+		} finally {
+			client.close();
 		}
 
 		return [returnData];
@@ -0,0 +1,241 @@
+import {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+	NodeConnectionType,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import { InValue, Row } from '@libsql/client';
+
+import { connectToDatabase, getColumns, getTables, getTableSchema, quoteIdentifier } from './GenericFunctions';
+
+// Alias of the rowid in polling queries, removed from the emitted rows
+const ROWID_ALIAS = '__turso_rowid';
+
+interface PollState {
+	cursorKey?: string;
+	// Never null, states saved by older versions may still hold it
+	lastValue?: string | number | null;
+	lastRowid?: number;
+}
+
+/**
+ * Convert a polled row into item data without the internal rowid alias
+ */
+function toJson(row: Row): IDataObject {
+	const json = { ...row } as IDataObject;
+	delete json[ROWID_ALIAS];
+	return json;
+}
+
+export class TursoTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Turso Trigger',
+		name: 'tursoTrigger',
+		icon: 'file:turso.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{"Table: " + $parameter["table"]}}',
+		description: 'Starts the workflow when new or changed rows appear in a Turso table',
+		defaults: {
+			name: 'Turso Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'tursoDb',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Table Name or ID',
+				name: 'table',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getTables',
+				},
+				default: '',
+				required: true,
+				description: 'Table to watch. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Track Rows By',
+				name: 'trackBy',
+				type: 'options',
+				options: [
+					{
+						name: 'Auto-Increment Column',
+						value: 'column',
+						description: 'Emit rows whose value in an ever increasing column is higher than the last one seen',
+					},
+					{
+						name: 'Row ID',
+						value: 'rowid',
+						description: 'Emit rows with a rowid higher than the last one seen',
+					},
+					{
+						name: 'Timestamp Column',
+						value: 'timestamp',
+						description: 'Emit rows whose timestamp column (e.g. updated_at) is newer than the last one seen. Catches changed rows as well as new ones.',
+					},
+				],
+				default: 'rowid',
+				description: 'How to find out which rows are new',
+			},
+			{
+				displayName: 'Tracking Column Name or ID',
+				name: 'trackingColumn',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['table'],
+				},
+				displayOptions: {
+					show: {
+						trackBy: ['column', 'timestamp'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Column that holds the increasing value or timestamp. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Max Rows per Poll',
+				name: 'batchSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 100,
+				description: 'Maximum number of rows to emit per poll. Remaining rows are emitted by the next polls.',
+			},
+			{
+				displayName: 'Where Clause',
+				name: 'whereClause',
+				type: 'string',
+				default: '',
+				placeholder: "status = 'active'",
+				description: 'Optional condition rows must match to be emitted (without the "WHERE" keyword)',
+			},
+			{
+				displayName: 'Include Existing Rows',
+				name: 'includeExisting',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to emit the rows that already exist when the workflow is activated. By default only rows added afterwards are emitted.',
+			},
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			getTables,
+			getColumns,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const table = this.getNodeParameter('table') as string;
+		const trackBy = this.getNodeParameter('trackBy') as string;
+		const trackingColumn = trackBy === 'rowid' ? 'rowid' : (this.getNodeParameter('trackingColumn') as string);
+		const batchSize = this.getNodeParameter('batchSize', 100) as number;
+		const whereClause = (this.getNodeParameter('whereClause', '') as string).trim();
+		const includeExisting = this.getNodeParameter('includeExisting', false) as boolean;
+
+		if (!table || table.trim() === '') {
+			throw new NodeOperationError(this.getNode(), 'Table name cannot be empty');
+		}
+
+		if (!trackingColumn || trackingColumn.trim() === '') {
+			throw new NodeOperationError(this.getNode(), 'A tracking column must be selected');
+		}
+
+		const client = await connectToDatabase.call(this);
+
+		try {
+			const tableSchema = await getTableSchema.call(this, client, table, trackBy === 'rowid' ? [] : [trackingColumn]);
+			const source = quoteIdentifier(tableSchema.name);
+			// Rows are keyed by the column name as declared, whatever case was entered
+			const columnName =
+				tableSchema.columns.find(column => column.toLowerCase() === trackingColumn.toLowerCase()) ?? trackingColumn;
+			const tracked = trackBy === 'rowid' ? 'rowid' : quoteIdentifier(columnName);
+			const filter = whereClause ? ` AND (${whereClause})` : '';
+			// Rows without a tracking value cannot be ordered against the high-water mark
+			const hasValue = `${tracked} IS NOT NULL`;
+
+			// Test runs show the latest rows without moving the high-water mark
+			if (this.getMode() === 'manual') {
+				const result = await client.execute({
+					sql: `SELECT *, rowid AS ${ROWID_ALIAS} FROM ${source} WHERE 1 = 1${filter} ORDER BY ${tracked} DESC, rowid DESC LIMIT ?`,
+					args: [batchSize],
+				});
+				const rows = result.rows.map(row => toJson(row)).reverse();
+				return rows.length > 0 ? [this.helpers.returnJsonArray(rows)] : null;
+			}
+
+			const staticData = this.getWorkflowStaticData('node') as PollState;
+			const cursorKey = `${table}|${trackBy}|${trackingColumn}`;
+
+			// Start over when the node now watches another table or column
+			if (staticData.cursorKey !== cursorKey) {
+				staticData.cursorKey = cursorKey;
+				staticData.lastValue = undefined;
+				staticData.lastRowid = undefined;
+
+				if (!includeExisting) {
+					const latest = await client.execute({
+						sql: `SELECT ${tracked} AS value, rowid AS ${ROWID_ALIAS} FROM ${source} WHERE ${hasValue} ORDER BY ${tracked} DESC, rowid DESC LIMIT 1`,
+						args: [],
+					});
+					const latestRow = latest.rows[0];
+					// An empty table has no mark yet, every row that gets a value is new
+					staticData.lastValue = latestRow ? (latestRow.value as string | number) : undefined;
+					staticData.lastRowid = latestRow ? Number(latestRow[ROWID_ALIAS]) : 0;
+					return null;
+				}
+			}
+
+			let cursorCondition = hasValue;
+			const args: InValue[] = [];
+
+			if (staticData.lastValue !== undefined && staticData.lastValue !== null) {
+				if (trackBy === 'timestamp') {
+					// Several rows can share a timestamp, the rowid decides between them
+					cursorCondition = `${hasValue} AND (${tracked} > ? OR (${tracked} = ? AND rowid > ?))`;
+					args.push(staticData.lastValue, staticData.lastValue, staticData.lastRowid ?? 0);
+				} else {
+					cursorCondition = `${hasValue} AND ${tracked} > ?`;
+					args.push(staticData.lastValue);
+				}
+			}
+
+			args.push(batchSize);
+
+			const result = await client.execute({
+				sql: `SELECT *, rowid AS ${ROWID_ALIAS} FROM ${source} WHERE ${cursorCondition}${filter} ORDER BY ${tracked} ASC, rowid ASC LIMIT ?`,
+				args,
+			});
+
+			if (result.rows.length === 0) {
+				return null;
+			}
+
+			const lastRow = result.rows[result.rows.length - 1];
+			staticData.lastValue =
+				trackBy === 'rowid'
+					? Number(lastRow[ROWID_ALIAS])
+					: (lastRow[columnName] as string | number);
+			staticData.lastRowid = Number(lastRow[ROWID_ALIAS]);
+
+			return [this.helpers.returnJsonArray(result.rows.map(row => toJson(row)))];
+		} finally {
+			client.close();
+		}
+	}
+}
@@ -0,0 +1,508 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	NodeConnectionType,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import { Client } from '@libsql/client';
+
+import { connectToDatabase, getTables, quoteIdentifier, trimStatement } from '../Turso/GenericFunctions';
+
+type StatementKind = 'read' | 'write' | 'schema' | 'forbidden';
+
+interface SchemaColumn {
+	name: string;
+	type: string;
+	notNull: boolean;
+	primaryKey: boolean;
+}
+
+interface SchemaTable {
+	name: string;
+	type: string;
+	columns: SchemaColumn[];
+}
+
+const WRITE_KEYWORDS = ['INSERT', 'UPDATE', 'DELETE', 'REPLACE'];
+const SCHEMA_KEYWORDS = ['CREATE', 'DROP', 'ALTER', 'REINDEX', 'ANALYZE', 'VACUUM', 'PRAGMA'];
+
+// Name reported for the virtual tables a statement opens, which have no root page
+const VIRTUAL_TABLE = 'virtual table';
+
+/**
+ * Remove comments and string literals so keywords and identifiers can be scanned safely.
+ * Literals, quoted identifiers and comments are scanned in one pass, so whichever starts
+ * first wins: a -- in a literal does not start a comment and a quote in a comment no literal.
+ */
+function stripSqlLiterals(sql: string): string {
+	return sql.replace(
+		/'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g,
+		token => {
+			if (token.startsWith("'")) {
+				return "''";
+			}
+			// An unterminated block comment runs to the end of the statement
+			return token.startsWith('--') || token.startsWith('/*') ? ' ' : token;
+		},
+	);
+}
+
+/**
+ * Keyword of the statement that follows the common table expressions of a WITH clause.
+ * Every expression ends in a parenthesized body followed by a comma or the statement,
+ * a column list is followed by AS.
+ */
+function getMainKeyword(sql: string): string {
+	const pattern = /"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|[A-Za-z_][A-Za-z0-9_$]*|[(),]|\S/g;
+	let depth = 0;
+	let afterParenthesis = false;
+	let match;
+
+	// Skip the WITH keyword itself
+	pattern.lastIndex = (sql.match(/^\s*WITH\b/i)?.[0] || '').length;
+
+	while ((match = pattern.exec(sql)) !== null) {
+		const token = match[0];
+
+		if (token === '(') {
+			depth++;
+		} else if (token === ')') {
+			depth--;
+			afterParenthesis = depth === 0;
+			continue;
+		} else if (depth === 0 && afterParenthesis && /^[A-Za-z]/.test(token) && token.toUpperCase() !== 'AS') {
+			return token.toUpperCase();
+		}
+
+		if (depth === 0) {
+			afterParenthesis = false;
+		}
+	}
+
+	return '';
+}
+
+/**
+ * Classify a statement by what it is able to change
+ */
+function classifyStatement(sql: string): StatementKind {
+	let firstKeyword = (sql.match(/^\s*([A-Za-z]+)/)?.[1] || '').toUpperCase();
+
+	// A common table expression can end in a data changing statement
+	if (firstKeyword === 'WITH') {
+		firstKeyword = getMainKeyword(sql);
+	}
+
+	if (firstKeyword === 'SELECT' || firstKeyword === 'VALUES' || firstKeyword === 'EXPLAIN') {
+		return 'read';
+	}
+
+	if (WRITE_KEYWORDS.includes(firstKeyword)) {
+		return 'write';
+	}
+
+	if (SCHEMA_KEYWORDS.includes(firstKeyword)) {
+		return 'schema';
+	}
+
+	// ATTACH, transaction control and anything unknown is never run by the tool
+	return 'forbidden';
+}
+
+/**
+ * Names referenced by a statement, bare or quoted with "", `` or []
+ */
+function getIdentifiers(sql: string): string[] {
+	const identifiers: string[] = [];
+	const pattern = /"((?:[^"]|"")+)"|`([^`]+)`|\[([^\]]+)\]|([A-Za-z_][A-Za-z0-9_$]*)/g;
+	let match;
+
+	while ((match = pattern.exec(sql)) !== null) {
+		const identifier = match[1]?.replace(/""/g, '"') ?? match[2] ?? match[3] ?? match[4];
+		identifiers.push(identifier.toLowerCase());
+	}
+
+	return identifiers;
+}
+
+/**
+ * Tables a statement opens for reading or writing, found by the root pages its
+ * EXPLAIN program opens. Views are resolved to the tables they read. Root page 1 is
+ * sqlite_master, and virtual tables such as pragma_table_list are reported as VIRTUAL_TABLE.
+ */
+async function getOpenedTables(client: Client, sql: string, rootPages: Map<number, string>): Promise<string[]> {
+	let program;
+	try {
+		program = await client.execute({ sql: `EXPLAIN ${sql}`, args: [] });
+	} catch (error) {
+		// A statement that cannot be prepared fails the same way when it is run
+		return [];
+	}
+
+	const tables = new Set<string>();
+	for (const instruction of program.rows) {
+		// p3 is the database, only the main database holds the tables of the schema
+		if (instruction.opcode === 'VOpen') {
+			tables.add(VIRTUAL_TABLE);
+		} else if (/^(OpenRead|OpenWrite|ReopenIdx)$/.test(instruction.opcode as string) && Number(instruction.p3) === 0) {
+			const rootPage = Number(instruction.p2);
+			const table = rootPage === 1 ? 'sqlite_master' : rootPages.get(rootPage);
+			if (table) {
+				tables.add(table);
+			}
+		}
+	}
+
+	return [...tables];
+}
+
+/**
+ * Read tables, views and their columns from the database
+ */
+async function loadSchema(client: Client): Promise<SchemaTable[]> {
+	const objects = await client.execute({
+		sql: "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name",
+		args: [],
+	});
+
+	const tables: SchemaTable[] = [];
+
+	for (const object of objects.rows) {
+		const name = object.name as string;
+		const columns = await client.execute({
+			sql: 'SELECT name, type, "notnull", pk FROM pragma_table_info(?)',
+			args: [name],
+		});
+
+		tables.push({
+			name,
+			type: object.type as string,
+			columns: columns.rows.map(column => ({
+				name: column.name as string,
+				type: (column.type as string) || 'ANY',
+				notNull: Number(column.notnull) === 1,
+				primaryKey: Number(column.pk) > 0,
+			})),
+		});
+	}
+
+	return tables;
+}
+
+/**
+ * Describe the schema in a compact text form an agent can read
+ */
+function describeSchema(tables: SchemaTable[]): string {
+	if (tables.length === 0) {
+		return 'The database has no tables the tool may access.';
+	}
+
+	return tables
+		.map(table => {
+			const columns = table.columns
+				.map(column => {
+					let definition = `${column.name} ${column.type}`;
+					if (column.primaryKey) {
+						definition += ' PRIMARY KEY';
+					}
+					if (column.notNull) {
+						definition += ' NOT NULL';
+					}
+					return definition;
+				})
+				.join(', ');
+			return `${table.type === 'view' ? 'View' : 'Table'} ${table.name} (${columns})`;
+		})
+		.join('\n');
+}
+
+export class TursoAiTool implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Turso AI Tool',
+		name: 'tursoAiTool',
+		icon: 'file:turso.svg',
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["operation"]}}',
+		description: 'Let an AI agent read the schema of a Turso database and query it within guardrails',
+		defaults: {
+			name: 'Turso AI Tool',
+		},
+		usableAsTool: true,
+		inputs: [NodeConnectionType.Main],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'tursoDb',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Get Schema',
+						value: 'getSchema',
+						description: 'Describe the tables and columns the agent may query',
+						action: 'Describe the database schema',
+					},
+					{
+						name: 'Run Query',
+						value: 'runQuery',
+						description: 'Run a SQL query written by the agent',
+						action: 'Run a SQL query',
+					},
+				],
+				default: 'runQuery',
+			},
+			{
+				displayName: 'Query',
+				name: 'query',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				displayOptions: {
+					show: {
+						operation: ['runQuery'],
+					},
+				},
+				default: '={{ $fromAI("query", "A single SQLite query to run against the database", "string") }}',
+				description: 'The SQL query to run, usually provided by the agent',
+				required: true,
+			},
+			{
+				displayName: 'Allowed Table Names or IDs',
+				name: 'allowedTables',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getTables',
+				},
+				default: [],
+				description: 'Tables the agent may see and query. Leave empty to allow every table. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Allow Data Changes',
+				name: 'allowWrite',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['runQuery'],
+					},
+				},
+				default: false,
+				description: 'Whether the agent may run INSERT, UPDATE and DELETE statements. By default the tool is read-only.',
+			},
+			{
+				displayName: 'Allow Schema Changes',
+				name: 'allowSchemaChanges',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['runQuery'],
+					},
+				},
+				default: false,
+				description: 'Whether the agent may run CREATE, ALTER, DROP and PRAGMA statements',
+			},
+			{
+				displayName: 'Max Rows',
+				name: 'maxRows',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['runQuery'],
+					},
+				},
+				default: 50,
+				description: 'Maximum number of rows returned to the agent. Larger results are cut off and marked as truncated.',
+			},
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			getTables,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+		const operation = this.getNodeParameter('operation', 0) as string;
+
+		const client = await connectToDatabase.call(this);
+
+		try {
+			for (let i = 0; i < items.length; i++) {
+				try {
+					const allowedTables = (this.getNodeParameter('allowedTables', i, []) as string[]).map(table =>
+						table.toLowerCase(),
+					);
+
+					const schema = (await loadSchema(client)).filter(
+						table => allowedTables.length === 0 || allowedTables.includes(table.name.toLowerCase()),
+					);
+
+					let responseData: IDataObject;
+
+					if (operation === 'getSchema') {
+						responseData = {
+							schema: describeSchema(schema),
+							tables: schema as unknown as IDataObject[],
+						};
+					} else {
+						const query = (this.getNodeParameter('query', i) as string).trim();
+						const allowWrite = this.getNodeParameter('allowWrite', i, false) as boolean;
+						const allowSchemaChanges = this.getNodeParameter('allowSchemaChanges', i, false) as boolean;
+						const maxRows = this.getNodeParameter('maxRows', i, 50) as number;
+
+						if (query === '') {
+							throw new NodeOperationError(this.getNode(), 'SQL query cannot be empty', { itemIndex: i });
+						}
+
+						const scannable = stripSqlLiterals(query).trim().replace(/;+\s*$/, '');
+
+						if (scannable.includes(';')) {
+							throw new NodeOperationError(this.getNode(), 'Query rejected: only a single statement may be run', {
+								itemIndex: i,
+							});
+						}
+
+						const kind = classifyStatement(scannable);
+
+						let rejection = '';
+						if (kind === 'forbidden') {
+							rejection = 'this kind of statement is not allowed';
+						} else if (kind === 'write' && !allowWrite) {
+							rejection = 'the tool is read-only, data changes are not allowed';
+						} else if (kind === 'schema' && !allowSchemaChanges) {
+							rejection = 'schema changes are not allowed';
+						}
+
+						if (rejection) {
+							throw new NodeOperationError(this.getNode(), `Query rejected: ${rejection}`, {
+								itemIndex: i,
+								description: `Available schema:\n${describeSchema(schema)}`,
+							});
+						}
+
+						const statement = trimStatement(query);
+
+						if (allowedTables.length > 0) {
+							// Any reference to a schema object outside of the allowlist is rejected
+							const schemaObjects = await client.execute({
+								sql: 'SELECT lower(name) AS name, type, lower(tbl_name) AS tableName, rootpage FROM sqlite_master',
+								args: [],
+							});
+							const blockedNames = schemaObjects.rows
+								.filter(row => row.type === 'table' || row.type === 'view')
+								.map(row => row.name as string)
+								.filter(name => !allowedTables.includes(name));
+							const identifiers = getIdentifiers(scannable);
+							// Schema tables and pragma functions such as pragma_table_list describe every table
+							const blocked = identifiers
+								.filter(name => blockedNames.includes(name) || /^(sqlite_(temp_)?(master|schema)|pragma_\w+)$/.test(name))
+								.filter((name, index, names) => names.indexOf(name) === index);
+
+							// Names can also be written as string literals, so the tables the statement
+							// really opens are checked as well. An allowed view the statement names may
+							// read its own tables, virtual tables are only opened through allowed ones.
+							const rootPages = new Map<number, string>();
+							for (const row of schemaObjects.rows) {
+								if (Number(row.rootpage) > 0) {
+									rootPages.set(Number(row.rootpage), row.tableName as string);
+								}
+							}
+
+							const readableTables = new Set(allowedTables);
+							for (const row of schemaObjects.rows) {
+								if (!allowedTables.includes(row.name as string) || !identifiers.includes(row.name as string)) {
+									continue;
+								}
+
+								if (row.type === 'view') {
+									const viewTables = await getOpenedTables(client, `SELECT * FROM ${quoteIdentifier(row.name as string)}`, rootPages);
+									viewTables.forEach(table => readableTables.add(table));
+								} else if (row.type === 'table' && Number(row.rootpage) === 0) {
+									readableTables.add(VIRTUAL_TABLE);
+								}
+							}
+
+							for (const table of await getOpenedTables(client, statement, rootPages)) {
+								if (!readableTables.has(table) && !blocked.includes(table)) {
+									blocked.push(table);
+								}
+							}
+
+							if (blocked.length > 0) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Query rejected: table(s) ${blocked.join(', ')} may not be accessed`,
+									{
+										itemIndex: i,
+										description: `Available schema:\n${describeSchema(schema)}`,
+									},
+								);
+							}
+						}
+
+						// Let the database cap the rows instead of loading the whole result
+						const wrapInLimit = /^\s*(SELECT|WITH|VALUES)\b/i.test(scannable) && kind === 'read';
+
+						try {
+							const result = await client.execute(
+								wrapInLimit
+									? { sql: `SELECT * FROM (${statement}) LIMIT ?`, args: [maxRows + 1] }
+									: { sql: statement, args: [] },
+							);
+
+							const rows = result.rows.map(row => ({ ...row }) as IDataObject);
+
+							responseData = {
+								columns: result.columns,
+								rows: rows.slice(0, maxRows),
+								rowCount: Math.min(rows.length, maxRows),
+								truncated: rows.length > maxRows,
+								rowsAffected: result.rowsAffected,
+							};
+						} catch (error) {
+							const message = error instanceof Error ? error.message : 'Unknown error';
+							throw new NodeOperationError(this.getNode(), `Database error in "Run Query": ${message}`, {
+								itemIndex: i,
+								description: `Available schema:\n${describeSchema(schema)}`,
+							});
+						}
+					}
+
+					const executionData = this.helpers.constructExecutionMetaData(
+						this.helpers.returnJsonArray(responseData),
+						{ itemData: { item: i } },
+					);
+					returnData.push(...executionData);
+				} catch (error) {
+					if (this.continueOnFail()) {
+						returnData.push({ json: { error: error.message } });
+						continue;
+					}
+					throw error;
+				}
+			}
+		} finally {
+			client.close();
+		}
+
+		return [returnData];
+	}
+}
@@ -0,0 +1,79 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INodePropertyOptions,
+	JsonObject,
+	NodeApiError,
+} from 'n8n-workflow';
+
+/**
+ * Send a request to the Turso Platform API. Endpoints are relative to the organization
+ * of the credential, unless they are marked as global (e.g. locations).
+ */
+export async function tursoPlatformApiRequest(
+	this: IExecuteFunctions | ILoadOptionsFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body?: IDataObject,
+	qs?: IDataObject,
+	global = false,
+): Promise<IDataObject> {
+	const credentials = await this.getCredentials('tursoPlatformApi');
+	const baseUrl = ((credentials.baseUrl as string) || 'https://api.turso.tech').replace(/\/+$/, '');
+	const organization = encodeURIComponent(credentials.organization as string);
+
+	const options: IHttpRequestOptions = {
+		method,
+		url: global ? `${baseUrl}/v1${endpoint}` : `${baseUrl}/v1/organizations/${organization}${endpoint}`,
+		json: true,
+	};
+
+	if (body && Object.keys(body).length > 0) {
+		options.body = body;
+	}
+
+	if (qs && Object.keys(qs).length > 0) {
+		options.qs = qs;
+	}
+
+	try {
+		return (await this.helpers.httpRequestWithAuthentication.call(this, 'tursoPlatformApi', options)) as IDataObject;
+	} catch (error) {
+		throw new NodeApiError(this.getNode(), error as JsonObject);
+	}
+}
+
+/**
+ * Get all databases of the organization for dropdown selection
+ */
+export async function getDatabases(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const response = await tursoPlatformApiRequest.call(this, 'GET', '/databases');
+	const databases = (response.databases as IDataObject[]) || [];
+
+	return databases
+		.map(database => ({
+			name: database.Name as string,
+			value: database.Name as string,
+			description: database.group ? `Group: ${database.group}` : undefined,
+		}))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get all groups of the organization for dropdown selection
+ */
+export async function getGroups(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const response = await tursoPlatformApiRequest.call(this, 'GET', '/groups');
+	const groups = (response.groups as IDataObject[]) || [];
+
+	return groups
+		.map(group => ({
+			name: group.name as string,
+			value: group.name as string,
+			description: Array.isArray(group.locations) ? `Locations: ${group.locations.join(', ')}` : undefined,
+		}))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
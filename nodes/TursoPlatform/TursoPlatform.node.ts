@@ -0,0 +1,428 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	NodeConnectionType,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import { getDatabases, getGroups, tursoPlatformApiRequest } from './GenericFunctions';
+
+export class TursoPlatform implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Turso Platform',
+		name: 'tursoPlatform',
+		icon: 'file:turso.svg',
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["operation"]}}',
+		description: 'Manage the databases, groups and tokens of a Turso organization',
+		defaults: {
+			name: 'Turso Platform',
+		},
+		inputs: [NodeConnectionType.Main],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				name: 'tursoPlatformApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Create Database',
+						value: 'createDatabase',
+						description: 'Create a database in a group',
+						action: 'Create a database',
+					},
+					{
+						name: 'Create Token',
+						value: 'createToken',
+						description: 'Create an auth token for a database',
+						action: 'Create a database token',
+					},
+					{
+						name: 'Delete Database',
+						value: 'deleteDatabase',
+						description: 'Delete a database and all of its data',
+						action: 'Delete a database',
+					},
+					{
+						name: 'Get Usage',
+						value: 'getUsage',
+						description: 'Read the usage of the organization or of a database',
+						action: 'Get usage',
+					},
+					{
+						name: 'List Databases',
+						value: 'listDatabases',
+						description: 'List the databases of the organization',
+						action: 'List databases',
+					},
+					{
+						name: 'List Groups',
+						value: 'listGroups',
+						description: 'List the groups of the organization',
+						action: 'List groups',
+					},
+					{
+						name: 'List Locations',
+						value: 'listLocations',
+						description: 'List the locations databases can be placed in',
+						action: 'List locations',
+					},
+					{
+						name: 'Revoke Tokens',
+						value: 'revokeTokens',
+						description: 'Invalidate every token of a database by rotating its keys',
+						action: 'Revoke the tokens of a database',
+					},
+				],
+				default: 'listDatabases',
+			},
+			{
+				displayName: 'Database Name',
+				name: 'databaseName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['createDatabase'],
+					},
+				},
+				default: '',
+				placeholder: 'my-database',
+				description: 'Name of the new database. Lowercase letters, numbers and dashes only.',
+				required: true,
+			},
+			{
+				displayName: 'Group Name or ID',
+				name: 'group',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getGroups',
+				},
+				displayOptions: {
+					show: {
+						operation: ['createDatabase'],
+					},
+				},
+				default: '',
+				description: 'Group the database is created in. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				required: true,
+			},
+			{
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				displayOptions: {
+					show: {
+						operation: ['createDatabase'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Seed From Database',
+						name: 'seedDatabase',
+						type: 'string',
+						default: '',
+						description: 'Name of an existing database whose data the new database starts with',
+					},
+					{
+						displayName: 'Size Limit',
+						name: 'sizeLimit',
+						type: 'string',
+						default: '',
+						placeholder: '256mb',
+						description: 'Maximum size of the database, e.g. 256mb or 1gb',
+					},
+				],
+			},
+			{
+				displayName: 'Database Name or ID',
+				name: 'database',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getDatabases',
+				},
+				displayOptions: {
+					show: {
+						operation: ['createToken', 'deleteDatabase', 'revokeTokens'],
+					},
+				},
+				default: '',
+				description: 'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				required: true,
+			},
+			{
+				displayName: 'Expiration',
+				name: 'expiration',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['createToken'],
+					},
+				},
+				default: 'never',
+				placeholder: '2w1d30m',
+				description: 'How long the token is valid, e.g. 1d or 2w1d30m. Use never for a token that does not expire.',
+			},
+			{
+				displayName: 'Authorization',
+				name: 'authorization',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['createToken'],
+					},
+				},
+				options: [
+					{
+						name: 'Full Access',
+						value: 'full-access',
+						description: 'The token can read and write',
+					},
+					{
+						name: 'Read Only',
+						value: 'read-only',
+						description: 'The token can only read',
+					},
+				],
+				default: 'full-access',
+			},
+			{
+				displayName: 'Confirm Delete',
+				name: 'confirmDelete',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						operation: ['deleteDatabase'],
+					},
+				},
+				default: false,
+				description: 'Whether to really delete the database. The database and all of its data are lost and cannot be recovered.',
+			},
+			{
+				displayName: 'Usage Of',
+				name: 'usageOf',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['getUsage'],
+					},
+				},
+				options: [
+					{
+						name: 'Database',
+						value: 'database',
+					},
+					{
+						name: 'Organization',
+						value: 'organization',
+					},
+				],
+				default: 'organization',
+			},
+			{
+				displayName: 'Database Name or ID',
+				name: 'usageDatabase',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getDatabases',
+				},
+				displayOptions: {
+					show: {
+						operation: ['getUsage'],
+						usageOf: ['database'],
+					},
+				},
+				default: '',
+				description: 'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				required: true,
+			},
+			{
+				displayName: 'From',
+				name: 'from',
+				type: 'dateTime',
+				displayOptions: {
+					show: {
+						operation: ['getUsage'],
+					},
+				},
+				default: '',
+				description: 'Start of the period. Leave empty for the current billing period.',
+			},
+			{
+				displayName: 'To',
+				name: 'to',
+				type: 'dateTime',
+				displayOptions: {
+					show: {
+						operation: ['getUsage'],
+					},
+				},
+				default: '',
+				description: 'End of the period. Leave empty for the current billing period.',
+			},
+			{
+				displayName: 'Group Name or ID',
+				name: 'filterGroup',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getGroups',
+				},
+				displayOptions: {
+					show: {
+						operation: ['listDatabases'],
+					},
+				},
+				default: '',
+				description: 'Only list the databases of this group. Leave empty to list every database. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			getDatabases,
+			getGroups,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+		const operation = this.getNodeParameter('operation', 0) as string;
+
+		for (let i = 0; i < items.length; i++) {
+			try {
+				let responseData: IDataObject | IDataObject[];
+
+				if (operation === 'createDatabase') {
+					const databaseName = (this.getNodeParameter('databaseName', i) as string).trim();
+					const group = this.getNodeParameter('group', i) as string;
+					const additionalFields = this.getNodeParameter('additionalFields', i, {}) as IDataObject;
+
+					if (databaseName === '') {
+						throw new NodeOperationError(this.getNode(), 'Database name cannot be empty', { itemIndex: i });
+					}
+
+					const body: IDataObject = { name: databaseName, group };
+
+					if (additionalFields.seedDatabase) {
+						body.seed = { type: 'database', name: additionalFields.seedDatabase };
+					}
+					if (additionalFields.sizeLimit) {
+						body.size_limit = additionalFields.sizeLimit;
+					}
+
+					const response = await tursoPlatformApiRequest.call(this, 'POST', '/databases', body);
+					responseData = response.database as IDataObject;
+				} else if (operation === 'createToken') {
+					const database = this.getNodeParameter('database', i) as string;
+					const expiration = (this.getNodeParameter('expiration', i, 'never') as string).trim() || 'never';
+					const authorization = this.getNodeParameter('authorization', i, 'full-access') as string;
+
+					const response = await tursoPlatformApiRequest.call(
+						this,
+						'POST',
+						`/databases/${encodeURIComponent(database)}/auth/tokens`,
+						undefined,
+						{ expiration, authorization },
+					);
+
+					responseData = { database, expiration, authorization, jwt: response.jwt };
+				} else if (operation === 'deleteDatabase') {
+					const database = this.getNodeParameter('database', i) as string;
+					const confirmDelete = this.getNodeParameter('confirmDelete', i, false) as boolean;
+
+					if (!confirmDelete) {
+						throw new NodeOperationError(this.getNode(), 'Deleting a database must be confirmed', {
+							itemIndex: i,
+							description: 'Enable "Confirm Delete" to delete the database and all of its data',
+						});
+					}
+
+					const response = await tursoPlatformApiRequest.call(this, 'DELETE', `/databases/${encodeURIComponent(database)}`);
+					responseData = { database: response.database ?? database, deleted: true };
+				} else if (operation === 'getUsage') {
+					const usageOf = this.getNodeParameter('usageOf', i) as string;
+					const from = this.getNodeParameter('from', i, '') as string;
+					const to = this.getNodeParameter('to', i, '') as string;
+
+					const qs: IDataObject = {};
+					if (from) {
+						qs.from = new Date(from).toISOString();
+					}
+					if (to) {
+						qs.to = new Date(to).toISOString();
+					}
+
+					if (usageOf === 'database') {
+						const database = this.getNodeParameter('usageDatabase', i) as string;
+						const response = await tursoPlatformApiRequest.call(
+							this,
+							'GET',
+							`/databases/${encodeURIComponent(database)}/usage`,
+							undefined,
+							qs,
+						);
+						responseData = response.database as IDataObject;
+					} else {
+						const response = await tursoPlatformApiRequest.call(this, 'GET', '/usage', undefined, qs);
+						responseData = response.organization as IDataObject;
+					}
+				} else if (operation === 'listDatabases') {
+					const filterGroup = this.getNodeParameter('filterGroup', i, '') as string;
+					const response = await tursoPlatformApiRequest.call(
+						this,
+						'GET',
+						'/databases',
+						undefined,
+						filterGroup ? { group: filterGroup } : undefined,
+					);
+					responseData = (response.databases as IDataObject[]) || [];
+				} else if (operation === 'listGroups') {
+					const response = await tursoPlatformApiRequest.call(this, 'GET', '/groups');
+					responseData = (response.groups as IDataObject[]) || [];
+				} else if (operation === 'listLocations') {
+					const response = await tursoPlatformApiRequest.call(this, 'GET', '/locations', undefined, undefined, true);
+					// Locations are returned as an object of codes and names
+					responseData = Object.entries((response.locations as IDataObject) || {}).map(([code, name]) => ({
+						code,
+						name,
+					}));
+				} else { // revokeTokens
+					const database = this.getNodeParameter('database', i) as string;
+					// Rotating the keys of a database invalidates every token issued for it
+					await tursoPlatformApiRequest.call(this, 'POST', `/databases/${encodeURIComponent(database)}/auth/rotate`);
+					responseData = { database, revoked: true };
+				}
+
+				// Lists are returned as one item per entry
+				const executionData = this.helpers.constructExecutionMetaData(
+					this.helpers.returnJsonArray(responseData),
+					{ itemData: { item: i } },
+				);
+				returnData.push(...executionData);
+			} catch (error) {
+				if (this.continueOnFail()) {
+					returnData.push({ json: { error: error.message } });
+					continue;
+				}
+				throw error;
+			}
+		}
+
+		return [returnData];
+	}
+}